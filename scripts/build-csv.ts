@@ -2,169 +2,313 @@
  * Build CSV files from scraped JSON collection files.
  *
  * Usage:
- *   deno run --allow-read --allow-write scripts/build-csv.ts
+ *   ohd build csv
  *
  * Output:
  *   dist/csv/collections.csv
  *   dist/csv/books.csv
  *   dist/csv/chapters.csv
  *   dist/csv/hadiths.csv
+ *   dist/csv/hadith_grades.csv
+ *   dist/csv/hadith_sources.csv
+ *   dist/csv/isnad_links.csv     (isnad_ar parsed into its chain, see src/isnad.ts)
+ *   dist/csv/narrators.csv       (when data/narrators.json exists, see ohd narrators)
+ *   dist/csv/hisn_chapters.csv   (when hisn.json is scraped)
+ *   dist/csv/duas.csv
+ *   dist/csv/dua_sources.csv
  */
 
 import {
   COLLECTIONS,
+  type BuildResult,
   type CollectionId,
   type ScrapedCollection,
 } from "../src/types.ts";
+import type { HisnCollection } from "../src/hisn/types.ts";
+import { indexRegistry, loadNarratorRegistry, resolveArabicName, resolveNarrator } from "../src/narrators.ts";
+import { parseIsnad } from "../src/isnad.ts";
+import { writeCsvRow } from "../src/csv.ts";
+import { plainArabic } from "../src/arabic.ts";
 
 const COLLECTIONS_DIR = "data/collections";
 const OUTPUT_DIR = "dist/csv";
 
-await Deno.mkdir(OUTPUT_DIR, { recursive: true });
-
 // ============================================================================
-// CSV helpers
+// Build CSV files
 // ============================================================================
 
-function escapeCsv(value: string | number | boolean | null | undefined): string {
-  if (value === null || value === undefined) return "";
-  const str = String(value);
-  if (str.includes(",") || str.includes('"') || str.includes("\n") || str.includes("\r")) {
-    return '"' + str.replace(/"/g, '""') + '"';
-  }
-  return str;
-}
+/**
+ * Build dist/csv/*.csv from data/collections/
+ */
+export async function buildCsv(): Promise<BuildResult> {
+  await Deno.mkdir(OUTPUT_DIR, { recursive: true });
 
-function writeCsvRow(fields: (string | number | boolean | null | undefined)[]): string {
-  return fields.map(escapeCsv).join(",") + "\n";
-}
+  const collectionIds = Object.keys(COLLECTIONS) as CollectionId[];
 
-// ============================================================================
-// Build CSV files
-// ============================================================================
+  // Open file handles
+  const collectionsFile = await Deno.open(`${OUTPUT_DIR}/collections.csv`, { write: true, create: true, truncate: true });
+  const booksFile = await Deno.open(`${OUTPUT_DIR}/books.csv`, { write: true, create: true, truncate: true });
+  const chaptersFile = await Deno.open(`${OUTPUT_DIR}/chapters.csv`, { write: true, create: true, truncate: true });
+  const hadithsFile = await Deno.open(`${OUTPUT_DIR}/hadiths.csv`, { write: true, create: true, truncate: true });
+  const narratorsFile = await Deno.open(`${OUTPUT_DIR}/narrators.csv`, { write: true, create: true, truncate: true });
+  const isnadLinksFile = await Deno.open(`${OUTPUT_DIR}/isnad_links.csv`, { write: true, create: true, truncate: true });
+  const hadithGradesFile = await Deno.open(`${OUTPUT_DIR}/hadith_grades.csv`, { write: true, create: true, truncate: true });
+  const hadithSourcesFile = await Deno.open(`${OUTPUT_DIR}/hadith_sources.csv`, { write: true, create: true, truncate: true });
+  const hisnChaptersFile = await Deno.open(`${OUTPUT_DIR}/hisn_chapters.csv`, { write: true, create: true, truncate: true });
+  const duasFile = await Deno.open(`${OUTPUT_DIR}/duas.csv`, { write: true, create: true, truncate: true });
+  const duaSourcesFile = await Deno.open(`${OUTPUT_DIR}/dua_sources.csv`, { write: true, create: true, truncate: true });
 
-const collectionIds = Object.keys(COLLECTIONS) as CollectionId[];
+  const encoder = new TextEncoder();
+
+  // Write headers
+  const write = (file: Deno.FsFile, row: string) => file.write(encoder.encode(row));
+
+  await write(collectionsFile, writeCsvRow([
+    "id", "name_en", "name_ar", "author_en", "author_ar", "type",
+    "total_books", "total_chapters", "total_hadiths", "scraped_at",
+  ]));
 
-// Open file handles
-const collectionsFile = await Deno.open(`${OUTPUT_DIR}/collections.csv`, { write: true, create: true, truncate: true });
-const booksFile = await Deno.open(`${OUTPUT_DIR}/books.csv`, { write: true, create: true, truncate: true });
-const chaptersFile = await Deno.open(`${OUTPUT_DIR}/chapters.csv`, { write: true, create: true, truncate: true });
-const hadithsFile = await Deno.open(`${OUTPUT_DIR}/hadiths.csv`, { write: true, create: true, truncate: true });
+  await write(booksFile, writeCsvRow([
+    "collection_id", "book_number", "book_key", "name_en", "name_ar",
+  ]));
 
-const encoder = new TextEncoder();
+  await write(chaptersFile, writeCsvRow([
+    "collection_id", "book_number", "chapter_number", "name_en", "name_ar",
+  ]));
 
-// Write headers
-const write = (file: Deno.FsFile, row: string) => file.write(encoder.encode(row));
+  await write(hadithsFile, writeCsvRow([
+    "collection_id", "book_number", "chapter_number", "hadith_number",
+    "reference", "in_book_reference",
+    "text_ar", "text_en",
+    "isnad_ar", "isnad_en", "matn_ar", "matn_en", "closing_ar", "matn_ar_plain", "isnad_ar_plain",
+    "split_method", "split_confidence",
+    "narrator", "narrator_id", "has_variants", "variant_of", "variant_suffix",
+    "source_reference", "source_grade", "grade_category",
+    "grade_en", "grade_ar", "url_source",
+  ]));
 
-await write(collectionsFile, writeCsvRow([
-  "id", "name_en", "name_ar", "author_en", "author_ar", "type",
-  "total_books", "total_chapters", "total_hadiths", "scraped_at",
-]));
+  await write(narratorsFile, writeCsvRow([
+    "id", "name_en", "name_ar", "aliases_en", "aliases_ar", "hadiths",
+  ]));
 
-await write(booksFile, writeCsvRow([
-  "collection_id", "book_number", "book_key", "name_en", "name_ar",
-]));
+  await write(hadithGradesFile, writeCsvRow([
+    "collection_id", "hadith_number", "position", "grader", "grade_en", "grade_ar", "normalized",
+    "category", "strength", "modifiers",
+  ]));
 
-await write(chaptersFile, writeCsvRow([
-  "collection_id", "book_number", "chapter_number", "name_en", "name_ar",
-]));
+  await write(hadithSourcesFile, writeCsvRow([
+    "collection_id", "hadith_number", "position",
+    "source_collection_id", "source_hadith_number", "agreed_upon",
+  ]));
 
-await write(hadithsFile, writeCsvRow([
-  "collection_id", "book_number", "chapter_number", "hadith_number",
-  "reference", "in_book_reference",
-  "text_ar", "text_en",
-  "isnad_ar", "isnad_en", "matn_ar", "matn_en", "closing_ar",
-  "narrator", "has_variants", "source_reference", "source_grade",
-  "grade_en", "grade_ar", "url_source",
-]));
+  await write(isnadLinksFile, writeCsvRow([
+    "collection_id", "hadith_number", "position", "chain", "name_ar", "transmission_verb", "narrator_id",
+  ]));
 
-console.log("Building CSV files...\n");
+  await write(hisnChaptersFile, writeCsvRow([
+    "chapter_number", "name_en", "name_ar",
+  ]));
 
-let totalHadiths = 0;
+  await write(duasFile, writeCsvRow([
+    "chapter_number", "dua_number", "reference", "text_ar",
+    "transliteration", "translation", "context_en", "context_transliteration",
+    "hisn_reference", "url_source",
+  ]));
 
-for (const collectionId of collectionIds) {
-  const filePath = `${COLLECTIONS_DIR}/${collectionId}.json`;
+  await write(duaSourcesFile, writeCsvRow([
+    "dua_number", "position", "work", "collection_id", "locator", "locator_type",
+    "hadith_number", "confidence",
+  ]));
 
-  let raw: string;
-  try {
-    raw = await Deno.readTextFile(filePath);
-  } catch {
-    console.warn(`  Skipping ${collectionId} — file not found`);
-    continue;
+  console.log("Building CSV files...\n");
+
+  // Aliases are joined with "|"
+  const registry = await loadNarratorRegistry();
+  for (const n of registry?.narrators ?? []) {
+    await write(narratorsFile, writeCsvRow([
+      n.id, n.name_en, n.name_ar, n.aliases_en.join("|"), n.aliases_ar.join("|"), n.hadiths,
+    ]));
   }
+  const narratorIndex = registry ? indexRegistry(registry) : null;
 
-  const data: ScrapedCollection = JSON.parse(raw);
-  const col = data.collection;
+  let totalHadiths = 0;
+  let collectionCount = 0;
 
-  // Write collection row
-  await write(collectionsFile, writeCsvRow([
-    col.id, col.name_en, col.name_ar, col.author_en, col.author_ar,
-    col.type, data.stats.total_books, data.stats.total_chapters,
-    data.stats.total_hadiths, col.scraped_at,
-  ]));
+  for (const collectionId of collectionIds) {
+    const filePath = `${COLLECTIONS_DIR}/${collectionId}.json`;
 
-  let hadithCount = 0;
+    let raw: string;
+    try {
+      raw = await Deno.readTextFile(filePath);
+    } catch {
+      console.warn(`  Skipping ${collectionId} — file not found`);
+      continue;
+    }
 
-  if (data.books) {
-    for (const book of data.books) {
-      const bookNum = book.book_key || book.book_number;
+    const data: ScrapedCollection = JSON.parse(raw);
+    collectionCount++;
+    const col = data.collection;
 
-      // Write book row
-      await write(booksFile, writeCsvRow([
-        collectionId, book.book_number, book.book_key, book.name_en, book.name_ar,
-      ]));
+    // Write collection row
+    await write(collectionsFile, writeCsvRow([
+      col.id, col.name_en, col.name_ar, col.author_en, col.author_ar,
+      col.type, data.stats.total_books, data.stats.total_chapters,
+      data.stats.total_hadiths, col.scraped_at,
+    ]));
+
+    let hadithCount = 0;
+
+    if (data.books) {
+      for (const book of data.books) {
+        const bookNum = book.book_key || book.book_number;
 
-      // Write chapters
-      for (const ch of book.chapters) {
-        await write(chaptersFile, writeCsvRow([
-          collectionId, bookNum, ch.chapter_number, ch.name_en, ch.name_ar,
+        // Write book row
+        await write(booksFile, writeCsvRow([
+          collectionId, book.book_number, book.book_key, book.name_en, book.name_ar,
         ]));
-      }
 
-      // Write hadiths
-      for (const h of book.hadiths) {
+        // Write chapters
+        for (const ch of book.chapters) {
+          await write(chaptersFile, writeCsvRow([
+            collectionId, bookNum, ch.chapter_number, ch.name_en, ch.name_ar,
+          ]));
+        }
+
+        // Write hadiths
+        for (const h of book.hadiths) {
+          await write(hadithsFile, writeCsvRow([
+            collectionId, bookNum, h.chapter_number, h.hadith_number,
+            h.reference, h.in_book_reference,
+            h.text_ar, h.text_en,
+            h.isnad_ar, h.isnad_en, h.matn_ar, h.matn_en, h.closing_ar,
+            h.matn_ar_plain ?? plainArabic(h.matn_ar), h.isnad_ar_plain ?? plainArabic(h.isnad_ar),
+            h.split_method, h.split_confidence,
+            h.narrator, narratorIndex && resolveNarrator(narratorIndex, h), h.has_variants, h.variant_of, h.variant_suffix,
+            h.source_reference, h.source_grade, h.grade_category ?? null,
+            h.grade_en, h.grade_ar, h.url_source,
+          ]));
+          for (const [i, g] of (h.grades ?? []).entries()) {
+            await write(hadithGradesFile, writeCsvRow([
+              collectionId, h.hadith_number, i + 1, g.grader, g.grade_en, g.grade_ar, g.normalized,
+              g.category ?? null, g.strength ?? null, g.modifiers?.join(",") || null,
+            ]));
+          }
+          for (const [i, c] of (h.source_citations ?? []).entries()) {
+            await write(hadithSourcesFile, writeCsvRow([
+              collectionId, h.hadith_number, i + 1, c.collection, c.hadith_number, c.agreed_upon,
+            ]));
+          }
+          for (const link of parseIsnad(h.isnad_ar)) {
+            await write(isnadLinksFile, writeCsvRow([
+              collectionId, h.hadith_number, link.position, link.chain, link.name_ar, link.transmission_verb,
+              narratorIndex && resolveArabicName(narratorIndex, link.name_ar),
+            ]));
+          }
+          hadithCount++;
+        }
+      }
+    } else if (data.hadiths) {
+      for (const h of data.hadiths) {
         await write(hadithsFile, writeCsvRow([
-          collectionId, bookNum, h.chapter_number, h.hadith_number,
+          collectionId, null, h.chapter_number, h.hadith_number,
           h.reference, h.in_book_reference,
           h.text_ar, h.text_en,
           h.isnad_ar, h.isnad_en, h.matn_ar, h.matn_en, h.closing_ar,
-          h.narrator, h.has_variants, h.source_reference, h.source_grade,
+          h.matn_ar_plain ?? plainArabic(h.matn_ar), h.isnad_ar_plain ?? plainArabic(h.isnad_ar),
+          h.split_method, h.split_confidence,
+          h.narrator, narratorIndex && resolveNarrator(narratorIndex, h), h.has_variants, h.variant_of, h.variant_suffix,
+          h.source_reference, h.source_grade, h.grade_category ?? null,
           h.grade_en, h.grade_ar, h.url_source,
         ]));
+        for (const [i, g] of (h.grades ?? []).entries()) {
+          await write(hadithGradesFile, writeCsvRow([
+            collectionId, h.hadith_number, i + 1, g.grader, g.grade_en, g.grade_ar, g.normalized,
+            g.category ?? null, g.strength ?? null, g.modifiers?.join(",") || null,
+          ]));
+        }
+        for (const [i, c] of (h.source_citations ?? []).entries()) {
+          await write(hadithSourcesFile, writeCsvRow([
+            collectionId, h.hadith_number, i + 1, c.collection, c.hadith_number, c.agreed_upon,
+          ]));
+        }
+        for (const link of parseIsnad(h.isnad_ar)) {
+          await write(isnadLinksFile, writeCsvRow([
+            collectionId, h.hadith_number, link.position, link.chain, link.name_ar, link.transmission_verb,
+            narratorIndex && resolveArabicName(narratorIndex, link.name_ar),
+          ]));
+        }
         hadithCount++;
       }
     }
-  } else if (data.hadiths) {
-    for (const h of data.hadiths) {
-      await write(hadithsFile, writeCsvRow([
-        collectionId, null, h.chapter_number, h.hadith_number,
-        h.reference, h.in_book_reference,
-        h.text_ar, h.text_en,
-        h.isnad_ar, h.isnad_en, h.matn_ar, h.matn_en, h.closing_ar,
-        h.narrator, h.has_variants, h.source_reference, h.source_grade,
-        h.grade_en, h.grade_ar, h.url_source,
+
+    totalHadiths += hadithCount;
+    console.log(`  ${collectionId.padEnd(20)} ${String(hadithCount).padStart(6)} hadiths`);
+  }
+
+  // Hisn al-Muslim (separate scraper, separate files)
+  let hisn: HisnCollection | null = null;
+  try {
+    hisn = JSON.parse(await Deno.readTextFile(`${COLLECTIONS_DIR}/hisn.json`));
+  } catch {
+    console.warn(`  Skipping hisn — file not found`);
+  }
+
+  if (hisn) {
+    for (const ch of hisn.chapters) {
+      await write(hisnChaptersFile, writeCsvRow([ch.chapter_number, ch.name_en, ch.name_ar]));
+    }
+    for (const d of hisn.duas) {
+      await write(duasFile, writeCsvRow([
+        d.chapter_number, d.dua_number, d.reference, d.text_ar,
+        d.transliteration, d.translation, d.context_en, d.context_transliteration,
+        d.hisn_reference, d.url_source,
       ]));
-      hadithCount++;
+
+      for (const [i, source] of (d.sources ?? []).entries()) {
+        await write(duaSourcesFile, writeCsvRow([
+          d.dua_number, i + 1, source.work, source.collection, source.locator, source.locator_type,
+          source.hadith?.split(":")[1] ?? null, source.confidence,
+        ]));
+      }
     }
+    console.log(`  ${"hisn".padEnd(20)} ${String(hisn.duas.length).padStart(6)} duas`);
+  }
+
+  collectionsFile.close();
+  booksFile.close();
+  chaptersFile.close();
+  hadithsFile.close();
+  narratorsFile.close();
+  isnadLinksFile.close();
+  hadithGradesFile.close();
+  hadithSourcesFile.close();
+  hisnChaptersFile.close();
+  duasFile.close();
+  duaSourcesFile.close();
+
+  console.log(`\nCSV files built in ${OUTPUT_DIR}/`);
+  console.log(`  Total hadiths: ${totalHadiths}`);
+
+  // Show file sizes
+  let totalBytes = 0;
+  for (const name of ["collections.csv", "books.csv", "chapters.csv", "hadiths.csv", "narrators.csv", "hadith_grades.csv", "hadith_sources.csv", "isnad_links.csv", "hisn_chapters.csv", "duas.csv", "dua_sources.csv"]) {
+    const info = await Deno.stat(`${OUTPUT_DIR}/${name}`);
+    totalBytes += info.size;
+    const size = info.size < 1024 * 1024
+      ? `${(info.size / 1024).toFixed(0)} KB`
+      : `${(info.size / 1024 / 1024).toFixed(1)} MB`;
+    console.log(`  ${name.padEnd(20)} ${size}`);
   }
 
-  totalHadiths += hadithCount;
-  console.log(`  ${collectionId.padEnd(20)} ${String(hadithCount).padStart(6)} hadiths`);
+  return {
+    output: OUTPUT_DIR,
+    collections: collectionCount,
+    hadiths: totalHadiths,
+    duas: hisn?.duas.length ?? 0,
+    bytes: totalBytes,
+  };
 }
 
-collectionsFile.close();
-booksFile.close();
-chaptersFile.close();
-hadithsFile.close();
-
-console.log(`\nCSV files built in ${OUTPUT_DIR}/`);
-console.log(`  Total hadiths: ${totalHadiths}`);
-
-// Show file sizes
-for (const name of ["collections.csv", "books.csv", "chapters.csv", "hadiths.csv"]) {
-  const info = await Deno.stat(`${OUTPUT_DIR}/${name}`);
-  const size = info.size < 1024 * 1024
-    ? `${(info.size / 1024).toFixed(0)} KB`
-    : `${(info.size / 1024 / 1024).toFixed(1)} MB`;
-  console.log(`  ${name.padEnd(20)} ${size}`);
+if (import.meta.main) {
+  await buildCsv();
 }
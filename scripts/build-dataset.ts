@@ -0,0 +1,241 @@
+/**
+ * Build the ML dataset: one JSONL file per task and split, with a dataset
+ * card (see src/dataset.ts for how splits are assigned).
+ *
+ * Usage:
+ *   ohd build dataset
+ *
+ * Output:
+ *   dist/dataset/segmentation/{train,dev,test}.jsonl   (text_ar → isnad_ar + matn_ar)
+ *   dist/dataset/translation/{train,dev,test}.jsonl    (matn_ar ↔ matn_en)
+ *   dist/dataset/grades/{train,dev,test}.jsonl         (text → grade_category)
+ *   dist/dataset/README.md                             (dataset card)
+ *   dist/dataset/stats.json
+ *
+ * Records are flat with the same keys on every line (null when missing), so
+ * each file loads as one table (pandas, Hugging Face datasets) and converts
+ * to Parquet as is.
+ */
+
+import type { BuildResult, CollectionId, ScrapedHadith } from "../src/types.ts";
+import { assignSplits, type DatasetHadith, datasetId, leakageGroups, type DatasetSplit, SPLIT_RATIOS, SPLITS } from "../src/dataset.ts";
+import { loadCollectionHadiths } from "../src/state.ts";
+import { loadClusters } from "../src/similarity.ts";
+
+const COLLECTIONS_DIR = "data/collections";
+const OUTPUT_DIR = "dist/dataset";
+
+/** Segmentation keeps DOM and heuristic splits; a regex split leaves the isnad in matn_ar */
+const MIN_SPLIT_CONFIDENCE = 0.6;
+
+type Task = "segmentation" | "translation" | "grades";
+
+/** Record of each task for a hadith, null when the hadith lacks the fields */
+const TASKS: Record<Task, { description: string; record: (h: ScrapedHadith) => Record<string, unknown> | null }> = {
+  segmentation: {
+    description: "Split the Arabic text into isnad (chain) and matn (content)",
+    record: (h) =>
+      h.isnad_ar && h.matn_ar && (h.split_confidence ?? 0) >= MIN_SPLIT_CONFIDENCE
+        ? {
+          text_ar: h.text_ar,
+          isnad_ar: h.isnad_ar,
+          matn_ar: h.matn_ar,
+          closing_ar: h.closing_ar,
+          split_method: h.split_method,
+          split_confidence: h.split_confidence,
+        }
+        : null,
+  },
+  translation: {
+    description: "Translate the matn between Arabic and English",
+    record: (h) => h.matn_ar && h.matn_en ? { ar: h.matn_ar, en: h.matn_en } : null,
+  },
+  grades: {
+    description: "Classify the grade category (sahih, hasan, daif, maudu)",
+    record: (h) =>
+      h.grade_category
+        ? {
+          text_ar: h.text_ar || null,
+          text_en: h.text_en || null,
+          grade: h.source_grade,
+          grade_category: h.grade_category,
+        }
+        : null,
+  },
+};
+
+interface DatasetStats {
+  generated_at: string;
+  hadiths: number;
+  /** Leakage groups of more than one hadith, and those spanning collections */
+  leakage_groups: number;
+  cross_collection_groups: number;
+  splits: Record<DatasetSplit, number>;
+  tasks: Record<Task, Record<DatasetSplit, number>>;
+  collections: { collection: CollectionId; splits: Record<DatasetSplit, number> }[];
+}
+
+// ============================================================================
+// Dataset card
+// ============================================================================
+
+function renderCard(stats: DatasetStats): string {
+  const percent = (n: number, total: number) => total ? `${(n / total * 100).toFixed(1)}%` : "-";
+  const row = (label: string, counts: Record<DatasetSplit, number>) => {
+    const total = SPLITS.reduce((sum, s) => sum + counts[s], 0);
+    return `| ${label} | ${SPLITS.map((s) => `${counts[s]} (${percent(counts[s], total)})`).join(" | ")} | ${total} |`;
+  };
+  const header = [`| | ${SPLITS.join(" | ")} | total |`, `|---|${SPLITS.map(() => "---|").join("")}---|`];
+
+  const lines = [
+    "---",
+    "language:",
+    "  - ar",
+    "  - en",
+    "configs:",
+    ...(Object.keys(TASKS) as Task[]).flatMap((task) => [
+      `  - config_name: ${task}`,
+      "    data_files:",
+      ...SPLITS.map((s) => `      - split: ${s === "dev" ? "validation" : s}\n        path: ${task}/${s}.jsonl`),
+    ]),
+    "---",
+    "",
+    "# Open Hadith Data: ML dataset",
+    "",
+    `Generated ${stats.generated_at} from ${stats.hadiths} hadiths scraped from sunnah.com.`,
+    "",
+    "## Tasks",
+    "",
+    "Every record has `id` (`collection:hadith_number`), `collection`, `group` (the id of the first hadith of its leakage group) and `split`.",
+    "",
+    "| Task | Description | Fields |",
+    "|---|---|---|",
+    "| segmentation | " + TASKS.segmentation.description +
+    ` | text_ar, isnad_ar, matn_ar, closing_ar, split_method, split_confidence (≥ ${MIN_SPLIT_CONFIDENCE}) |`,
+    "| translation | " + TASKS.translation.description + " | ar, en |",
+    "| grades | " + TASKS.grades.description + " | text_ar, text_en, grade, grade_category |",
+    "",
+    "## Splits",
+    "",
+    `Splits are deterministic and stratified by collection (${SPLITS.map((s) => `${s} ${SPLIT_RATIOS[s] * 100}%`).join(", ")}).`,
+    "Hadiths sharing text stay in one split: variants of a hadith, compilation hadiths with the hadith they cite, hadiths with identical normalized matn, and parallel narrations clustered by `ohd clusters`.",
+    `Leakage groups kept together: ${stats.leakage_groups} (${stats.cross_collection_groups} across collections).`,
+    "",
+    ...header,
+    ...(Object.keys(TASKS) as Task[]).map((task) => row(task, stats.tasks[task])),
+    row("all hadiths", stats.splits),
+    "",
+    "### By collection",
+    "",
+    ...header,
+    ...stats.collections.map((c) => row(c.collection, c.splits)),
+    "",
+    "## Caveats",
+    "",
+    "- English matn are sunnah.com's translations; they are not always literal and some collections have none.",
+    "- Segmentation labels come from the page markup where present, otherwise from heuristics (see `split_method`).",
+    "- Grades are the first grade sunnah.com shows; collections it does not grade have no grades records.",
+    "",
+  ];
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Build
+// ============================================================================
+
+/**
+ * Build dist/dataset/ from data/collections/
+ */
+export async function buildDataset(): Promise<BuildResult & { records: Record<Task, number> }> {
+  console.log("Building ML dataset...\n");
+
+  const entries: (DatasetHadith & { hadith: ScrapedHadith })[] = [];
+  const collections: CollectionId[] = [];
+  for (const { collection: collectionId, hadiths } of await loadCollectionHadiths(COLLECTIONS_DIR)) {
+    for (const hadith of hadiths) entries.push({ collection: collectionId, hadith });
+    collections.push(collectionId);
+  }
+
+  const clusters = await loadClusters();
+  if (!clusters) console.log("  data/clusters.json not found; run `ohd clusters` to keep parallel narrations together\n");
+  const groups = leakageGroups(entries, clusters);
+  const splits = await assignSplits(entries, groups);
+  const groupOf = new Array<string>(entries.length);
+  for (const members of groups) {
+    for (const i of members) groupOf[i] = datasetId(entries[members[0]]);
+  }
+
+  const empty = (): Record<DatasetSplit, number> => ({ train: 0, dev: 0, test: 0 });
+  const stats: DatasetStats = {
+    generated_at: new Date().toISOString(),
+    hadiths: entries.length,
+    leakage_groups: groups.filter((g) => g.length > 1).length,
+    cross_collection_groups: groups.filter((g) => new Set(g.map((i) => entries[i].collection)).size > 1).length,
+    splits: empty(),
+    tasks: { segmentation: empty(), translation: empty(), grades: empty() },
+    collections: collections.map((collection) => ({ collection, splits: empty() })),
+  };
+
+  const lines = new Map<string, string[]>();
+  for (const [i, entry] of entries.entries()) {
+    const split = splits[i];
+    stats.splits[split]++;
+    stats.collections.find((c) => c.collection === entry.collection)!.splits[split]++;
+
+    for (const task of Object.keys(TASKS) as Task[]) {
+      const record = TASKS[task].record(entry.hadith);
+      if (!record) continue;
+      stats.tasks[task][split]++;
+      const file = `${task}/${split}.jsonl`;
+      if (!lines.has(file)) lines.set(file, []);
+      lines.get(file)!.push(JSON.stringify({
+        id: datasetId(entry),
+        collection: entry.collection,
+        group: groupOf[i],
+        split,
+        ...record,
+      }));
+    }
+  }
+
+  let totalBytes = 0;
+  const write = async (name: string, content: string) => {
+    const bytes = new TextEncoder().encode(content);
+    await Deno.writeFile(`${OUTPUT_DIR}/${name}`, bytes);
+    totalBytes += bytes.length;
+  };
+
+  for (const task of Object.keys(TASKS) as Task[]) {
+    await Deno.mkdir(`${OUTPUT_DIR}/${task}`, { recursive: true });
+    for (const split of SPLITS) {
+      const file = `${task}/${split}.jsonl`;
+      await write(file, (lines.get(file) ?? []).map((l) => l + "\n").join(""));
+    }
+  }
+  await write("stats.json", JSON.stringify(stats, null, 2));
+  await write("README.md", renderCard(stats));
+
+  const records = Object.fromEntries(
+    (Object.keys(TASKS) as Task[]).map((task) => [task, SPLITS.reduce((sum, s) => sum + stats.tasks[task][s], 0)]),
+  ) as Record<Task, number>;
+
+  console.log(`ML dataset built in ${OUTPUT_DIR}/`);
+  for (const task of Object.keys(TASKS) as Task[]) {
+    console.log(`  ${task.padEnd(13)} ${SPLITS.map((s) => `${s} ${stats.tasks[task][s]}`).join(", ")}`);
+  }
+  console.log(`  Leakage groups: ${stats.leakage_groups} (${stats.cross_collection_groups} across collections)`);
+
+  return {
+    output: OUTPUT_DIR,
+    collections: collections.length,
+    hadiths: entries.length,
+    duas: 0,
+    bytes: totalBytes,
+    records,
+  };
+}
+
+if (import.meta.main) {
+  await buildDataset();
+}
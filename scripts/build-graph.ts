@@ -0,0 +1,237 @@
+/**
+ * Build the narrator transmission graph from the isnads of the scraped
+ * collections (see src/graph.ts).
+ *
+ * Usage:
+ *   ohd build graph
+ *
+ * Output:
+ *   dist/graph/narrators.graphml   (yEd, Cytoscape, NetworkX)
+ *   dist/graph/narrators.gexf      (Gephi)
+ *   dist/graph/edges.csv           (teacher, student, hadiths, one column per collection)
+ *   dist/graph/common_links.json   (common-link candidates per hadith cluster)
+ *   dist/graph/common_links.md
+ *
+ * Node ids are registry ids when data/narrators.json exists (ohd narrators);
+ * without it every name spelling is its own node.
+ */
+
+import type { BuildResult, CollectionId } from "../src/types.ts";
+import { indexRegistry, loadNarratorRegistry } from "../src/narrators.ts";
+import {
+  buildTransmissionGraph,
+  type ClusterCommonLinks,
+  commonLinks,
+  type GraphEdge,
+  type GraphHadith,
+  type GraphNode,
+} from "../src/graph.ts";
+import { writeCsvRow } from "../src/csv.ts";
+import { escapeXml } from "../src/xml.ts";
+import { loadCollectionHadiths } from "../src/state.ts";
+
+const COLLECTIONS_DIR = "data/collections";
+const OUTPUT_DIR = "dist/graph";
+
+// ============================================================================
+// Serializers
+// ============================================================================
+
+function toGraphML(nodes: GraphNode[], edges: GraphEdge[], collections: CollectionId[]): string {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    `  <key id="name_ar" for="node" attr.name="name_ar" attr.type="string"/>`,
+    `  <key id="name_en" for="node" attr.name="name_en" attr.type="string"/>`,
+    `  <key id="registered" for="node" attr.name="registered" attr.type="boolean"/>`,
+    `  <key id="node_hadiths" for="node" attr.name="hadiths" attr.type="int"/>`,
+    `  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>`,
+    ...collections.map((c) =>
+      `  <key id="c_${c}" for="edge" attr.name="${c}" attr.type="int"><default>0</default></key>`
+    ),
+    `  <graph id="narrators" edgedefault="directed">`,
+  ];
+
+  for (const n of nodes) {
+    lines.push(
+      `    <node id="${escapeXml(n.id)}">`,
+      `      <data key="name_ar">${escapeXml(n.name_ar)}</data>`,
+      ...(n.name_en ? [`      <data key="name_en">${escapeXml(n.name_en)}</data>`] : []),
+      `      <data key="registered">${n.registered}</data>`,
+      `      <data key="node_hadiths">${n.hadiths}</data>`,
+      `    </node>`,
+    );
+  }
+  for (const e of edges) {
+    lines.push(
+      `    <edge source="${escapeXml(e.source)}" target="${escapeXml(e.target)}">`,
+      `      <data key="weight">${e.hadiths}</data>`,
+      ...collections
+        .filter((c) => e.collections[c])
+        .map((c) => `      <data key="c_${c}">${e.collections[c]}</data>`),
+      `    </edge>`,
+    );
+  }
+
+  lines.push(`  </graph>`, `</graphml>`, "");
+  return lines.join("\n");
+}
+
+function toGEXF(nodes: GraphNode[], edges: GraphEdge[], collections: CollectionId[], date: string): string {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gexf xmlns="http://gexf.net/1.3" version="1.3">`,
+    `  <meta lastmodifieddate="${date}">`,
+    `    <creator>open-hadith-data</creator>`,
+    `    <description>Narrator transmissions (teacher to student), weighted by hadiths</description>`,
+    `  </meta>`,
+    `  <graph defaultedgetype="directed" mode="static">`,
+    `    <attributes class="node">`,
+    `      <attribute id="name_en" title="name_en" type="string"/>`,
+    `      <attribute id="registered" title="registered" type="boolean"/>`,
+    `      <attribute id="hadiths" title="hadiths" type="integer"/>`,
+    `    </attributes>`,
+    `    <attributes class="edge">`,
+    ...collections.map((c) =>
+      `      <attribute id="${c}" title="${c}" type="integer"><default>0</default></attribute>`
+    ),
+    `    </attributes>`,
+    `    <nodes>`,
+  ];
+
+  for (const n of nodes) {
+    lines.push(
+      `      <node id="${escapeXml(n.id)}" label="${escapeXml(n.name_ar)}">`,
+      `        <attvalues>`,
+      ...(n.name_en ? [`          <attvalue for="name_en" value="${escapeXml(n.name_en)}"/>`] : []),
+      `          <attvalue for="registered" value="${n.registered}"/>`,
+      `          <attvalue for="hadiths" value="${n.hadiths}"/>`,
+      `        </attvalues>`,
+      `      </node>`,
+    );
+  }
+  lines.push(`    </nodes>`, `    <edges>`);
+  for (const [i, e] of edges.entries()) {
+    lines.push(
+      `      <edge id="${i}" source="${escapeXml(e.source)}" target="${escapeXml(e.target)}" weight="${e.hadiths}">`,
+      `        <attvalues>`,
+      ...collections
+        .filter((c) => e.collections[c])
+        .map((c) => `          <attvalue for="${c}" value="${e.collections[c]}"/>`),
+      `        </attvalues>`,
+      `      </edge>`,
+    );
+  }
+
+  lines.push(`    </edges>`, `  </graph>`, `</gexf>`, "");
+  return lines.join("\n");
+}
+
+function toEdgeCsv(edges: GraphEdge[], nodes: Map<string, GraphNode>, collections: CollectionId[]): string {
+  const rows = [writeCsvRow(["source", "target", "source_name_ar", "target_name_ar", "hadiths", ...collections])];
+  for (const e of edges) {
+    rows.push(writeCsvRow([
+      e.source, e.target, nodes.get(e.source)?.name_ar, nodes.get(e.target)?.name_ar, e.hadiths,
+      ...collections.map((c) => e.collections[c] ?? 0),
+    ]));
+  }
+  return rows.join("");
+}
+
+function renderCommonLinks(clusters: ClusterCommonLinks[], generatedAt: string): string {
+  const cell = (value: string | number) => String(value).replaceAll("|", "\\|");
+  const found = clusters.filter((c) => c.candidates.length > 0);
+  const lines = [
+    "# Common links",
+    "",
+    `Generated ${generatedAt}`,
+    "",
+    `${found.length} of ${clusters.length} hadith clusters with two or more routes have a common-link candidate.`,
+    "",
+    "| Hadiths | Routes | Common link | Through | Students | Other candidates |",
+    "|---|---|---|---|---|---|",
+  ];
+  for (const c of found) {
+    const [top, ...others] = c.candidates;
+    lines.push(`| ${
+      [
+        cell(c.hadiths.join(", ")),
+        c.routes,
+        cell(top.name_ar),
+        top.routes,
+        top.students,
+        cell(others.map((o) => o.name_ar).join("، ")),
+      ].join(" | ")
+    } |`);
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Build
+// ============================================================================
+
+/**
+ * Build dist/graph/ from data/collections/
+ */
+export async function buildGraph(): Promise<BuildResult & { nodes: number; edges: number; common_links: number }> {
+  await Deno.mkdir(OUTPUT_DIR, { recursive: true });
+
+  console.log("Building narrator graph...\n");
+
+  const hadiths: GraphHadith[] = [];
+  const collections: CollectionId[] = [];
+  for (const { collection: collectionId, hadiths: collectionHadiths } of await loadCollectionHadiths(COLLECTIONS_DIR)) {
+    for (const hadith of collectionHadiths) hadiths.push({ collection: collectionId, hadith });
+    collections.push(collectionId);
+    console.log(`  ${collectionId.padEnd(20)} ${String(collectionHadiths.length).padStart(6)} hadiths`);
+  }
+
+  const registry = await loadNarratorRegistry();
+  if (!registry) console.warn("  No data/narrators.json — run ohd narrators to merge name spellings");
+  const graph = buildTransmissionGraph(hadiths, registry, registry ? indexRegistry(registry) : null);
+  const clusters = commonLinks(hadiths, graph);
+
+  const byId = (a: string, b: string) => a < b ? -1 : a > b ? 1 : 0;
+  const nodes = [...graph.nodes.values()].sort((a, b) => b.hadiths - a.hadiths || byId(a.id, b.id));
+  const edges = [...graph.edges.values()]
+    .sort((a, b) => b.hadiths - a.hadiths || byId(a.source, b.source) || byId(a.target, b.target));
+  const generatedAt = new Date().toISOString();
+
+  const files: [string, string][] = [
+    ["narrators.graphml", toGraphML(nodes, edges, collections)],
+    ["narrators.gexf", toGEXF(nodes, edges, collections, generatedAt.slice(0, 10))],
+    ["edges.csv", toEdgeCsv(edges, graph.nodes, collections)],
+    ["common_links.json", JSON.stringify({ generated_at: generatedAt, clusters }, null, 2)],
+    ["common_links.md", renderCommonLinks(clusters, generatedAt)],
+  ];
+
+  let totalBytes = 0;
+  for (const [name, content] of files) {
+    const bytes = new TextEncoder().encode(content);
+    await Deno.writeFile(`${OUTPUT_DIR}/${name}`, bytes);
+    totalBytes += bytes.length;
+  }
+
+  const found = clusters.filter((c) => c.candidates.length > 0).length;
+  console.log(`\nNarrator graph built in ${OUTPUT_DIR}/`);
+  console.log(`  Narrators:     ${nodes.length}`);
+  console.log(`  Transmissions: ${edges.length}`);
+  console.log(`  Common links:  ${found}/${clusters.length} clusters with two or more routes`);
+
+  return {
+    output: OUTPUT_DIR,
+    collections: collections.length,
+    hadiths: hadiths.length,
+    duas: 0,
+    bytes: totalBytes,
+    nodes: nodes.length,
+    edges: edges.length,
+    common_links: found,
+  };
+}
+
+if (import.meta.main) {
+  await buildGraph();
+}
@@ -0,0 +1,108 @@
+/**
+ * Build the JSON release files from scraped JSON collection files.
+ *
+ * Usage:
+ *   ohd build json
+ *
+ * Output:
+ *   dist/json/<collection>.json   (one per scraped collection, including hisn.json)
+ *   dist/json/snapshots.json      (URL -> body hash of the pages the records were parsed from, for --snapshots)
+ *
+ * Hadiths scraped before matn_ar_plain/isnad_ar_plain existed get them here.
+ */
+
+import {
+  COLLECTIONS,
+  type BuildResult,
+  type CollectionId,
+  type PageSource,
+  type ScrapedCollection,
+  type ScrapedHadith,
+} from "../src/types.ts";
+import type { HisnCollection } from "../src/hisn/types.ts";
+import { plainArabic } from "../src/arabic.ts";
+import { writeSnapshotManifest } from "../src/snapshot.ts";
+
+const COLLECTIONS_DIR = "data/collections";
+const OUTPUT_DIR = "dist/json";
+
+function withPlainText(h: ScrapedHadith): ScrapedHadith {
+  return {
+    ...h,
+    matn_ar_plain: h.matn_ar_plain ?? plainArabic(h.matn_ar),
+    isnad_ar_plain: h.isnad_ar_plain ?? plainArabic(h.isnad_ar),
+  };
+}
+
+/**
+ * Copy every scraped collection (and Hisn al-Muslim, if scraped) into dist/json/
+ */
+export async function buildJson(): Promise<BuildResult> {
+  await Deno.mkdir(OUTPUT_DIR, { recursive: true });
+
+  console.log("Building JSON files...\n");
+
+  const ids = [...Object.keys(COLLECTIONS) as CollectionId[], "hisn"];
+  let collectionCount = 0;
+  let totalHadiths = 0;
+  let totalDuas = 0;
+  let totalBytes = 0;
+  const sources: PageSource[] = [];
+  let unrecorded = 0;
+
+  for (const id of ids) {
+    let raw: string;
+    try {
+      raw = await Deno.readTextFile(`${COLLECTIONS_DIR}/${id}.json`);
+    } catch {
+      console.warn(`  Skipping ${id} — file not found`);
+      continue;
+    }
+
+    // Re-serialize so a truncated or hand-edited file fails here, not for users
+    const data = JSON.parse(raw) as ScrapedCollection | HisnCollection;
+    const count = "total_hadiths" in data.stats ? data.stats.total_hadiths : data.stats.total_duas;
+    if ("books" in data) {
+      for (const book of data.books ?? []) book.hadiths = book.hadiths.map(withPlainText);
+      if (data.hadiths) data.hadiths = data.hadiths.map(withPlainText);
+    }
+
+    // Pages the records were parsed from, for snapshots.json
+    const parsedFrom = "books" in data && data.books ? data.books.map((b) => b.source_page) : [data.source_page];
+    for (const source of parsedFrom) {
+      if (source) sources.push(source);
+      else unrecorded++;
+    }
+
+    const output = JSON.stringify(data, null, 2);
+    await Deno.writeTextFile(`${OUTPUT_DIR}/${id}.json`, output);
+
+    collectionCount++;
+    if ("total_hadiths" in data.stats) totalHadiths += count;
+    else totalDuas += count;
+    totalBytes += new TextEncoder().encode(output).length;
+    console.log(`  ${id.padEnd(20)} ${String(count).padStart(6)} records`);
+  }
+
+  const pages = await writeSnapshotManifest(`${OUTPUT_DIR}/snapshots.json`, sources);
+  if (unrecorded > 0) {
+    console.warn(`  ${unrecorded} pages parsed before source_page was recorded; re-parse them to pin them in snapshots.json`);
+  }
+
+  console.log(`\nJSON files built in ${OUTPUT_DIR}/`);
+  console.log(`  Collections: ${collectionCount}`);
+  console.log(`  Snapshots:   ${pages} pages`);
+  console.log(`  Size:        ${(totalBytes / 1024 / 1024).toFixed(1)} MB`);
+
+  return {
+    output: OUTPUT_DIR,
+    collections: collectionCount,
+    hadiths: totalHadiths,
+    duas: totalDuas,
+    bytes: totalBytes,
+  };
+}
+
+if (import.meta.main) {
+  await buildJson();
+}
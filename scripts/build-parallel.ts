@@ -0,0 +1,117 @@
+/**
+ * Build the Arabic-English parallel corpus: matn_ar and matn_en aligned
+ * sentence by sentence (see src/align.ts).
+ *
+ * Usage:
+ *   ohd build parallel
+ *
+ * Output:
+ *   dist/parallel/hadiths.tmx     (TMX 1.4, one <tu> per aligned pair, score in <prop type="x-score">)
+ *   dist/parallel/hadiths.jsonl   (one aligned pair per line)
+ *
+ * Every pair is written with its score; filter on it (and on split_method)
+ * for training data. 1-0 and 0-1 beads are text without a counterpart.
+ */
+
+import type { BuildResult } from "../src/types.ts";
+import { alignHadith } from "../src/align.ts";
+import { escapeXml } from "../src/xml.ts";
+import { loadCollectionHadiths } from "../src/state.ts";
+
+const COLLECTIONS_DIR = "data/collections";
+const OUTPUT_DIR = "dist/parallel";
+
+/**
+ * Build dist/parallel/ from data/collections/
+ */
+export async function buildParallel(): Promise<BuildResult & { segments: number }> {
+  await Deno.mkdir(OUTPUT_DIR, { recursive: true });
+
+  // FsFile.write may write only part of a buffer; the writable stream writes it all
+  const tmxFile = (await Deno.open(`${OUTPUT_DIR}/hadiths.tmx`, { write: true, create: true, truncate: true })).writable
+    .getWriter();
+  const jsonlFile = (await Deno.open(`${OUTPUT_DIR}/hadiths.jsonl`, { write: true, create: true, truncate: true }))
+    .writable.getWriter();
+  const encoder = new TextEncoder();
+  const write = (file: WritableStreamDefaultWriter<Uint8Array>, text: string) => file.write(encoder.encode(text));
+
+  console.log("Building parallel corpus...\n");
+
+  await write(
+    tmxFile,
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+      `<tmx version="1.4">\n` +
+      `  <header creationtool="open-hadith-data" creationtoolversion="1.0.0" segtype="sentence" ` +
+      `o-tmf="open-hadith-data" adminlang="en" srclang="ar" datatype="plaintext"/>\n` +
+      `  <body>\n`,
+  );
+
+  let collectionCount = 0;
+  let totalHadiths = 0;
+  let totalSegments = 0;
+
+  for (const { collection: collectionId, hadiths } of await loadCollectionHadiths(COLLECTIONS_DIR)) {
+    let segments = 0;
+    for (const h of hadiths) {
+      for (const pair of alignHadith(h)) {
+        const id = `${collectionId}:${h.hadith_number}:${pair.position}`;
+        await write(jsonlFile, JSON.stringify({
+          id,
+          collection_id: collectionId,
+          hadith_number: h.hadith_number,
+          position: pair.position,
+          ar: pair.ar,
+          en: pair.en,
+          bead: pair.bead,
+          score: pair.score,
+          split_method: h.split_method ?? null,
+        }) + "\n");
+
+        // TMX needs both sides of a unit
+        if (pair.ar && pair.en) {
+          await write(
+            tmxFile,
+            `    <tu tuid="${escapeXml(id)}">\n` +
+              `      <prop type="x-score">${pair.score}</prop>\n` +
+              `      <prop type="x-bead">${pair.bead}</prop>\n` +
+              `      <tuv xml:lang="ar"><seg>${escapeXml(pair.ar)}</seg></tuv>\n` +
+              `      <tuv xml:lang="en"><seg>${escapeXml(pair.en)}</seg></tuv>\n` +
+              `    </tu>\n`,
+          );
+        }
+        segments++;
+      }
+    }
+
+    collectionCount++;
+    totalHadiths += hadiths.length;
+    totalSegments += segments;
+    console.log(`  ${collectionId.padEnd(20)} ${String(segments).padStart(6)} segments`);
+  }
+
+  await write(tmxFile, `  </body>\n</tmx>\n`);
+  await tmxFile.close();
+  await jsonlFile.close();
+
+  let totalBytes = 0;
+  for (const name of ["hadiths.tmx", "hadiths.jsonl"]) {
+    totalBytes += (await Deno.stat(`${OUTPUT_DIR}/${name}`)).size;
+  }
+
+  console.log(`\nParallel corpus built in ${OUTPUT_DIR}/`);
+  console.log(`  Segments: ${totalSegments}`);
+  console.log(`  Size:     ${(totalBytes / 1024 / 1024).toFixed(1)} MB`);
+
+  return {
+    output: OUTPUT_DIR,
+    collections: collectionCount,
+    hadiths: totalHadiths,
+    duas: 0,
+    bytes: totalBytes,
+    segments: totalSegments,
+  };
+}
+
+if (import.meta.main) {
+  await buildParallel();
+}
@@ -2,238 +2,711 @@
  * Build SQLite database from scraped JSON collection files.
  *
  * Usage:
- *   deno run --allow-read --allow-write --allow-ffi scripts/build-sqlite.ts
+ *   ohd build sqlite
  *
  * Output:
- *   dist/hadiths.db
+ *   dist/hadiths.db   (hadith collections, plus hisn_chapters/duas/dua_sources when hisn.json is scraped)
+ *
+ * Narrators: when data/narrators.json exists (ohd narrators), hadiths.narrator_id
+ * links each hadith to the narrators table. isnad_links holds the chain parsed
+ * from isnad_ar (src/isnad.ts), with narrator_id for the names in the registry.
+ *
+ * Aligned segments: aligned_segments pairs the sentences of matn_ar and matn_en
+ * (src/align.ts), with a 0-1 alignment score. ohd build parallel exports the
+ * same pairs as TMX and JSONL.
+ *
+ * Clusters: when data/clusters.json exists (ohd clusters), hadith_clusters
+ * groups parallel narrations of one hadith across collections.
+ *
+ * Quran citations: when data/quran-citations.json exists (ohd quran),
+ * quran_citations holds the Quranic quotations of matn_ar and the verse
+ * references of matn_en, as character spans with surah and ayahs.
+ *
+ * Full-text search: hadiths_fts is an FTS5 index over the normalized Arabic
+ * columns and the English text, kept in sync with hadiths by triggers. Arabic
+ * queries must be normalized like the *_normalized columns (src/arabic.ts).
  */
 
 import { DatabaseSync } from "node:sqlite";
 import {
   COLLECTIONS,
+  type BuildResult,
   type CollectionId,
   type ScrapedBook,
   type ScrapedChapter,
   type ScrapedCollection,
   type ScrapedHadith,
 } from "../src/types.ts";
+import type { HisnCollection } from "../src/hisn/types.ts";
+import { normalizeArabic, plainArabic } from "../src/arabic.ts";
+import { indexRegistry, loadNarratorRegistry, resolveArabicName, resolveNarrator } from "../src/narrators.ts";
+import { parseIsnad } from "../src/isnad.ts";
+import { alignHadith } from "../src/align.ts";
+import { loadClusters } from "../src/similarity.ts";
+import { loadQuranCitations } from "../src/quran.ts";
+import { loadScrapedCollection } from "../src/state.ts";
 
 const COLLECTIONS_DIR = "data/collections";
 const OUTPUT_DIR = "dist";
 const DB_PATH = `${OUTPUT_DIR}/hadiths.db`;
 
-// Ensure output directory exists
-await Deno.mkdir(OUTPUT_DIR, { recursive: true });
-
-// Remove existing DB
-try {
-  await Deno.remove(DB_PATH);
-} catch { /* ignore if not exists */ }
-
-const db = new DatabaseSync(DB_PATH);
-
-// Enable WAL mode for faster writes
-db.exec("PRAGMA journal_mode=WAL");
-db.exec("PRAGMA synchronous=NORMAL");
-
-// ============================================================================
-// Create tables
-// ============================================================================
-
-db.exec(`
-  CREATE TABLE collections (
-    id TEXT PRIMARY KEY,
-    name_en TEXT NOT NULL,
-    name_ar TEXT NOT NULL,
-    author_en TEXT NOT NULL,
-    author_ar TEXT NOT NULL,
-    type TEXT NOT NULL CHECK(type IN ('primary', 'compilation')),
-    total_books INTEGER NOT NULL DEFAULT 0,
-    total_chapters INTEGER NOT NULL DEFAULT 0,
-    total_hadiths INTEGER NOT NULL DEFAULT 0,
-    scraped_at TEXT
-  );
-
-  CREATE TABLE books (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    collection_id TEXT NOT NULL REFERENCES collections(id),
-    book_number INTEGER NOT NULL,
-    book_key TEXT,
-    name_en TEXT NOT NULL,
-    name_ar TEXT,
-    UNIQUE(collection_id, book_number, book_key)
-  );
-
-  CREATE TABLE chapters (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    book_id INTEGER NOT NULL REFERENCES books(id),
-    chapter_number INTEGER,
-    name_en TEXT,
-    name_ar TEXT
-  );
-
-  CREATE TABLE hadiths (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    collection_id TEXT NOT NULL REFERENCES collections(id),
-    book_id INTEGER REFERENCES books(id),
-    chapter_number INTEGER,
-    hadith_number TEXT NOT NULL,
-    reference TEXT,
-    in_book_reference TEXT,
-
-    text_ar TEXT NOT NULL DEFAULT '',
-    text_en TEXT NOT NULL DEFAULT '',
-
-    isnad_ar TEXT,
-    isnad_en TEXT,
-    matn_ar TEXT,
-    matn_en TEXT,
-    closing_ar TEXT,
-
-    narrator TEXT,
-    has_variants INTEGER NOT NULL DEFAULT 0,
-    source_reference TEXT,
-    source_grade TEXT,
-    grade_en TEXT,
-    grade_ar TEXT,
-    url_source TEXT
-  );
-
-  CREATE INDEX idx_hadiths_collection ON hadiths(collection_id);
-  CREATE INDEX idx_hadiths_book ON hadiths(book_id);
-  CREATE INDEX idx_hadiths_number ON hadiths(collection_id, hadith_number);
-  CREATE INDEX idx_hadiths_narrator ON hadiths(narrator);
-  CREATE INDEX idx_hadiths_grade ON hadiths(source_grade);
-  CREATE INDEX idx_books_collection ON books(collection_id);
-  CREATE INDEX idx_chapters_book ON chapters(book_id);
-`);
-
-// ============================================================================
-// Prepared statements
-// ============================================================================
-
-const insertCollection = db.prepare(`
-  INSERT INTO collections (id, name_en, name_ar, author_en, author_ar, type, total_books, total_chapters, total_hadiths, scraped_at)
-  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-`);
-
-const insertBook = db.prepare(`
-  INSERT INTO books (collection_id, book_number, book_key, name_en, name_ar)
-  VALUES (?, ?, ?, ?, ?)
-`);
-
-const insertChapter = db.prepare(`
-  INSERT INTO chapters (book_id, chapter_number, name_en, name_ar)
-  VALUES (?, ?, ?, ?)
-`);
-
-const insertHadith = db.prepare(`
-  INSERT INTO hadiths (
-    collection_id, book_id, chapter_number, hadith_number, reference, in_book_reference,
-    text_ar, text_en, isnad_ar, isnad_en, matn_ar, matn_en, closing_ar,
-    narrator, has_variants, source_reference, source_grade, grade_en, grade_ar, url_source
-  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-`);
-
-// ============================================================================
-// Import data
-// ============================================================================
-
-const collectionIds = Object.keys(COLLECTIONS) as CollectionId[];
-let totalHadiths = 0;
-
-console.log("Building SQLite database...\n");
-
-db.exec("BEGIN TRANSACTION");
-
-for (const collectionId of collectionIds) {
-  const filePath = `${COLLECTIONS_DIR}/${collectionId}.json`;
-
-  let raw: string;
-  try {
-    raw = await Deno.readTextFile(filePath);
-  } catch {
-    console.warn(`  Skipping ${collectionId} — file not found`);
-    continue;
+/** Columns indexed by hadiths_fts, in hadiths and hadiths_fts alike */
+const FTS_COLUMNS = [
+  "text_ar_normalized",
+  "matn_ar_normalized",
+  "isnad_ar_normalized",
+  "text_en",
+  "matn_en",
+  "isnad_en",
+];
+
+function normalizeOrNull(text: string | null): string | null {
+  return text ? normalizeArabic(text) : null;
+}
+
+/**
+ * Build dist/hadiths.db from data/collections/
+ */
+export async function buildSqlite(): Promise<BuildResult> {
+  // Read every collection first: a corrupt file fails the build before the old DB is removed
+  const collections: { collectionId: CollectionId; data: ScrapedCollection }[] = [];
+  for (const collectionId of Object.keys(COLLECTIONS) as CollectionId[]) {
+    const data = await loadScrapedCollection(collectionId, COLLECTIONS_DIR);
+    if (data) collections.push({ collectionId, data });
+    else console.warn(`  Skipping ${collectionId} — file not found`);
   }
 
-  const data: ScrapedCollection = JSON.parse(raw);
-  const col = data.collection;
-
-  // Insert collection
-  insertCollection.run(
-    col.id, col.name_en, col.name_ar, col.author_en, col.author_ar,
-    col.type, data.stats.total_books, data.stats.total_chapters, data.stats.total_hadiths,
-    col.scraped_at,
-  );
-
-  let hadithCount = 0;
-
-  if (data.books) {
-    // Book-based collection
-    for (const book of data.books) {
-      const result = insertBook.run(
-        collectionId,
-        book.book_number,
-        book.book_key,
-        book.name_en,
-        book.name_ar,
-      );
-      const bookId = Number(result.lastInsertRowid);
+  // Ensure output directory exists
+  await Deno.mkdir(OUTPUT_DIR, { recursive: true });
 
-      // Insert chapters
-      for (const chapter of book.chapters) {
-        insertChapter.run(bookId, chapter.chapter_number, chapter.name_en, chapter.name_ar);
+  // Remove existing DB
+  try {
+    await Deno.remove(DB_PATH);
+  } catch { /* ignore if not exists */ }
+
+  const db = new DatabaseSync(DB_PATH);
+
+  // Enable WAL mode for faster writes
+  db.exec("PRAGMA journal_mode=WAL");
+  db.exec("PRAGMA synchronous=NORMAL");
+
+  // ============================================================================
+  // Create tables
+  // ============================================================================
+
+  db.exec(`
+    CREATE TABLE collections (
+      id TEXT PRIMARY KEY,
+      name_en TEXT NOT NULL,
+      name_ar TEXT NOT NULL,
+      author_en TEXT NOT NULL,
+      author_ar TEXT NOT NULL,
+      type TEXT NOT NULL CHECK(type IN ('primary', 'compilation')),
+      total_books INTEGER NOT NULL DEFAULT 0,
+      total_chapters INTEGER NOT NULL DEFAULT 0,
+      total_hadiths INTEGER NOT NULL DEFAULT 0,
+      scraped_at TEXT
+    );
+
+    CREATE TABLE books (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_id TEXT NOT NULL REFERENCES collections(id),
+      book_number INTEGER NOT NULL,
+      book_key TEXT,
+      name_en TEXT NOT NULL,
+      name_ar TEXT,
+      UNIQUE(collection_id, book_number, book_key)
+    );
+
+    CREATE TABLE chapters (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER NOT NULL REFERENCES books(id),
+      chapter_number INTEGER,
+      name_en TEXT,
+      name_ar TEXT
+    );
+
+    -- Narrator registry (data/narrators.json): spelling variants clustered under one row
+    CREATE TABLE narrators (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      slug TEXT NOT NULL UNIQUE,
+      name_en TEXT,
+      name_ar TEXT,
+      hadith_count INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE narrator_aliases (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      narrator_id INTEGER NOT NULL REFERENCES narrators(id),
+      alias TEXT NOT NULL,
+      language TEXT NOT NULL CHECK(language IN ('en', 'ar'))
+    );
+
+    CREATE TABLE hadiths (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_id TEXT NOT NULL REFERENCES collections(id),
+      book_id INTEGER REFERENCES books(id),
+      chapter_id INTEGER REFERENCES chapters(id),
+      chapter_number INTEGER,
+      hadith_number TEXT NOT NULL,
+      reference TEXT,
+      in_book_reference TEXT,
+
+      text_ar TEXT NOT NULL DEFAULT '',
+      text_en TEXT NOT NULL DEFAULT '',
+
+      isnad_ar TEXT,
+      isnad_en TEXT,
+      matn_ar TEXT,
+      matn_en TEXT,
+      closing_ar TEXT,
+      -- Without diacritics, letters as written (src/arabic.ts "ml" profile)
+      matn_ar_plain TEXT,
+      isnad_ar_plain TEXT,
+      -- How isnad_ar/matn_ar were separated, and how reliable that is (0-1); NULL for JSON scraped before
+      split_method TEXT CHECK(split_method IN ('dom', 'heuristic_qala', 'heuristic_anna', 'regex', 'none')),
+      split_confidence REAL,
+
+      -- Diacritic-stripped, letter-folded Arabic for search (src/arabic.ts)
+      text_ar_normalized TEXT NOT NULL DEFAULT '',
+      matn_ar_normalized TEXT,
+      isnad_ar_normalized TEXT,
+
+      narrator TEXT,
+      narrator_id INTEGER REFERENCES narrators(id),
+      has_variants INTEGER NOT NULL DEFAULT 0,
+      variant_of TEXT,
+      variant_suffix TEXT,
+      source_reference TEXT,
+      source_grade TEXT,
+      grade_category TEXT CHECK(grade_category IN ('sahih', 'hasan', 'daif', 'maudu')),
+      grade_en TEXT,
+      grade_ar TEXT,
+      url_source TEXT
+    );
+
+    -- One row per grader in the hadith's .gradetable (source_grade summarizes them)
+    CREATE TABLE hadith_grades (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      hadith_id INTEGER NOT NULL REFERENCES hadiths(id),
+      position INTEGER NOT NULL,
+      grader TEXT,
+      grade_en TEXT,
+      grade_ar TEXT,
+      normalized TEXT,
+      category TEXT,
+      strength INTEGER,
+      -- Comma-separated: li_ghairihi, mawquf, isnad
+      modifiers TEXT
+    );
+
+    -- Collections cited by compilation hadiths (source_citations), linked to the cited hadith
+    CREATE TABLE hadith_sources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      hadith_id INTEGER NOT NULL REFERENCES hadiths(id),
+      position INTEGER NOT NULL,
+      -- Not a foreign key: the cited collection may be missing from this build
+      collection_id TEXT NOT NULL,
+      hadith_number TEXT,
+      agreed_upon INTEGER NOT NULL DEFAULT 0,
+      source_hadith_id INTEGER REFERENCES hadiths(id)
+    );
+
+    -- Narrators of isnad_ar in reading order; ح (tahwil) starts a new chain
+    CREATE TABLE isnad_links (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      hadith_id INTEGER NOT NULL REFERENCES hadiths(id),
+      position INTEGER NOT NULL,
+      chain INTEGER NOT NULL,
+      name_ar TEXT NOT NULL,
+      transmission_verb TEXT,
+      narrator_id INTEGER REFERENCES narrators(id)
+    );
+
+    -- Sentence pairs of matn_ar and matn_en; 1-0 and 0-1 beads have an empty side
+    CREATE TABLE aligned_segments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      hadith_id INTEGER NOT NULL REFERENCES hadiths(id),
+      position INTEGER NOT NULL,
+      ar TEXT NOT NULL,
+      en TEXT NOT NULL,
+      bead TEXT NOT NULL CHECK(bead IN ('1-1', '1-2', '2-1', '2-2', '1-0', '0-1')),
+      score REAL NOT NULL
+    );
+
+    -- Parallel narrations (ohd clusters); similarity is to matched_hadith_id, the most similar member
+    CREATE TABLE hadith_clusters (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      cluster_id INTEGER NOT NULL,
+      hadith_id INTEGER NOT NULL REFERENCES hadiths(id),
+      similarity REAL NOT NULL,
+      matched_hadith_id INTEGER REFERENCES hadiths(id)
+    );
+
+    -- Quranic quotations (ohd quran); span_start/span_end are JavaScript string offsets into field
+    CREATE TABLE quran_citations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      hadith_id INTEGER NOT NULL REFERENCES hadiths(id),
+      field TEXT NOT NULL CHECK(field IN ('matn_ar', 'matn_en')),
+      span_start INTEGER NOT NULL,
+      span_end INTEGER NOT NULL,
+      surah INTEGER NOT NULL CHECK(surah BETWEEN 1 AND 114),
+      ayah_start INTEGER NOT NULL,
+      ayah_end INTEGER NOT NULL,
+      method TEXT NOT NULL CHECK(method IN ('brackets', 'formula', 'text', 'reference')),
+      words INTEGER
+    );
+
+    CREATE TABLE hisn_chapters (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chapter_number INTEGER NOT NULL UNIQUE,
+      name_en TEXT,
+      name_ar TEXT
+    );
+
+    CREATE TABLE duas (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chapter_id INTEGER REFERENCES hisn_chapters(id),
+      chapter_number INTEGER NOT NULL,
+      dua_number TEXT NOT NULL UNIQUE,
+      reference TEXT,
+      text_ar TEXT NOT NULL DEFAULT '',
+      transliteration TEXT,
+      translation TEXT,
+      context_en TEXT,
+      context_transliteration TEXT,
+      hisn_reference TEXT,
+      url_source TEXT
+    );
+
+    CREATE TABLE dua_sources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      dua_id INTEGER NOT NULL REFERENCES duas(id),
+      position INTEGER NOT NULL,
+      work TEXT NOT NULL,
+      -- Not a foreign key: the cited collection may be missing from this build
+      collection_id TEXT,
+      locator TEXT,
+      locator_type TEXT CHECK(locator_type IN ('number', 'volume_page')),
+      hadith_id INTEGER REFERENCES hadiths(id),
+      confidence REAL NOT NULL DEFAULT 0
+    );
+
+    CREATE INDEX idx_hadiths_collection ON hadiths(collection_id);
+    CREATE INDEX idx_hadiths_book ON hadiths(book_id);
+    CREATE INDEX idx_hadiths_chapter ON hadiths(chapter_id);
+    CREATE INDEX idx_hadiths_number ON hadiths(collection_id, hadith_number);
+    CREATE INDEX idx_hadiths_variant ON hadiths(collection_id, variant_of);
+    CREATE INDEX idx_hadiths_narrator ON hadiths(narrator);
+    CREATE INDEX idx_hadiths_narrator_id ON hadiths(narrator_id);
+    CREATE INDEX idx_narrator_aliases_narrator ON narrator_aliases(narrator_id);
+    CREATE INDEX idx_hadiths_grade ON hadiths(source_grade);
+    CREATE INDEX idx_hadiths_grade_category ON hadiths(grade_category);
+    CREATE INDEX idx_hadiths_split ON hadiths(split_method, split_confidence);
+    CREATE INDEX idx_books_collection ON books(collection_id);
+    CREATE INDEX idx_chapters_book ON chapters(book_id, chapter_number);
+    CREATE INDEX idx_hadith_grades_hadith ON hadith_grades(hadith_id);
+    CREATE INDEX idx_hadith_grades_grader ON hadith_grades(grader, normalized);
+    CREATE INDEX idx_hadith_sources_hadith ON hadith_sources(hadith_id);
+    CREATE INDEX idx_hadith_sources_source ON hadith_sources(source_hadith_id);
+    CREATE INDEX idx_isnad_links_hadith ON isnad_links(hadith_id);
+    CREATE INDEX idx_isnad_links_narrator ON isnad_links(narrator_id);
+    CREATE INDEX idx_aligned_segments_hadith ON aligned_segments(hadith_id);
+    CREATE INDEX idx_hadith_clusters_cluster ON hadith_clusters(cluster_id);
+    CREATE INDEX idx_hadith_clusters_hadith ON hadith_clusters(hadith_id);
+    CREATE INDEX idx_quran_citations_hadith ON quran_citations(hadith_id);
+    CREATE INDEX idx_quran_citations_ayah ON quran_citations(surah, ayah_start);
+    CREATE INDEX idx_duas_chapter ON duas(chapter_id);
+    CREATE INDEX idx_dua_sources_dua ON dua_sources(dua_id);
+    CREATE INDEX idx_dua_sources_hadith ON dua_sources(hadith_id);
+  `);
+
+  // ============================================================================
+  // Prepared statements
+  // ============================================================================
+
+  const insertCollection = db.prepare(`
+    INSERT INTO collections (id, name_en, name_ar, author_en, author_ar, type, total_books, total_chapters, total_hadiths, scraped_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertBook = db.prepare(`
+    INSERT INTO books (collection_id, book_number, book_key, name_en, name_ar)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const insertChapter = db.prepare(`
+    INSERT INTO chapters (book_id, chapter_number, name_en, name_ar)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const insertHadith = db.prepare(`
+    INSERT INTO hadiths (
+      collection_id, book_id, chapter_id, chapter_number, hadith_number, reference, in_book_reference,
+      text_ar, text_en, isnad_ar, isnad_en, matn_ar, matn_en, closing_ar, matn_ar_plain, isnad_ar_plain,
+      split_method, split_confidence, text_ar_normalized, matn_ar_normalized, isnad_ar_normalized,
+      narrator, narrator_id, has_variants, variant_of, variant_suffix,
+      source_reference, source_grade, grade_category, grade_en, grade_ar, url_source
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertNarrator = db.prepare(`
+    INSERT INTO narrators (slug, name_en, name_ar, hadith_count)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const insertNarratorAlias = db.prepare(`
+    INSERT INTO narrator_aliases (narrator_id, alias, language)
+    VALUES (?, ?, ?)
+  `);
+
+  const insertHadithGrade = db.prepare(`
+    INSERT INTO hadith_grades (hadith_id, position, grader, grade_en, grade_ar, normalized, category, strength, modifiers)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertHadithSource = db.prepare(`
+    INSERT INTO hadith_sources (hadith_id, position, collection_id, hadith_number, agreed_upon)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const insertIsnadLink = db.prepare(`
+    INSERT INTO isnad_links (hadith_id, position, chain, name_ar, transmission_verb, narrator_id)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertAlignedSegment = db.prepare(`
+    INSERT INTO aligned_segments (hadith_id, position, ar, en, bead, score)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  // Grades and citations of one hadith (absent from JSON scraped before they were parsed), its isnad chain and aligned matn
+  const insertHadithRows = (hadithId: number, h: ScrapedHadith) => {
+    (h.grades ?? []).forEach((g, i) => {
+      insertHadithGrade.run(
+        hadithId, i + 1, g.grader, g.grade_en, g.grade_ar, g.normalized,
+        g.category ?? null, g.strength ?? null, g.modifiers?.join(",") || null,
+      );
+    });
+    (h.source_citations ?? []).forEach((c, i) => {
+      insertHadithSource.run(hadithId, i + 1, c.collection, c.hadith_number, c.agreed_upon ? 1 : 0);
+    });
+    for (const link of parseIsnad(h.isnad_ar)) {
+      insertIsnadLink.run(
+        hadithId, link.position, link.chain, link.name_ar, link.transmission_verb, isnadNarratorId(link.name_ar),
+      );
+    }
+    for (const pair of alignHadith(h)) {
+      insertAlignedSegment.run(hadithId, pair.position, pair.ar, pair.en, pair.bead, pair.score);
+    }
+  };
+
+  const insertHisnChapter = db.prepare(`
+    INSERT INTO hisn_chapters (chapter_number, name_en, name_ar)
+    VALUES (?, ?, ?)
+  `);
+
+  const insertDua = db.prepare(`
+    INSERT INTO duas (
+      chapter_id, chapter_number, dua_number, reference, text_ar,
+      transliteration, translation, context_en, context_transliteration, hisn_reference, url_source
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertDuaSource = db.prepare(`
+    INSERT INTO dua_sources (dua_id, position, work, collection_id, locator, locator_type, hadith_id, confidence)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertClusterMember = db.prepare(`
+    INSERT INTO hadith_clusters (cluster_id, hadith_id, similarity, matched_hadith_id)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const insertQuranCitation = db.prepare(`
+    INSERT INTO quran_citations (hadith_id, field, span_start, span_end, surah, ayah_start, ayah_end, method, words)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const findHadith = db.prepare(`
+    SELECT id FROM hadiths WHERE collection_id = ? AND hadith_number = ?
+  `);
+
+  // ============================================================================
+  // Import data
+  // ============================================================================
+
+  let totalHadiths = 0;
+
+  console.log("Building SQLite database...\n");
+
+  db.exec("BEGIN TRANSACTION");
+
+  // Narrators first, so hadiths can reference them
+  const registry = await loadNarratorRegistry();
+  const narratorIds = new Map<string, number>();
+  if (registry) {
+    for (const n of registry.narrators) {
+      const result = insertNarrator.run(n.id, n.name_en, n.name_ar, n.hadiths);
+      const narratorId = Number(result.lastInsertRowid);
+      narratorIds.set(n.id, narratorId);
+      for (const alias of n.aliases_en) insertNarratorAlias.run(narratorId, alias, "en");
+      for (const alias of n.aliases_ar) insertNarratorAlias.run(narratorId, alias, "ar");
+    }
+  } else {
+    console.warn("  No data/narrators.json — run ohd narrators to fill narrator_id");
+  }
+  const narratorIndex = registry ? indexRegistry(registry) : null;
+  const narratorId = (h: ScrapedHadith) => {
+    const slug = narratorIndex ? resolveNarrator(narratorIndex, h) : null;
+    return slug ? narratorIds.get(slug) ?? null : null;
+  };
+  const isnadNarratorId = (name: string) => {
+    const slug = narratorIndex ? resolveArabicName(narratorIndex, name) : null;
+    return slug ? narratorIds.get(slug) ?? null : null;
+  };
+
+  for (const { collectionId, data } of collections) {
+    const col = data.collection;
+
+    // Insert collection
+    insertCollection.run(
+      col.id, col.name_en, col.name_ar, col.author_en, col.author_ar,
+      col.type, data.stats.total_books, data.stats.total_chapters, data.stats.total_hadiths,
+      col.scraped_at,
+    );
+
+    let hadithCount = 0;
+
+    if (data.books) {
+      // Book-based collection
+      for (const book of data.books) {
+        const result = insertBook.run(
+          collectionId,
+          book.book_number,
+          book.book_key,
+          book.name_en,
+          book.name_ar,
+        );
+        const bookId = Number(result.lastInsertRowid);
+
+        // Insert chapters
+        const chapterIds = new Map<number, number>();
+        for (const chapter of book.chapters) {
+          const chapterResult = insertChapter.run(bookId, chapter.chapter_number, chapter.name_en, chapter.name_ar);
+          chapterIds.set(chapter.chapter_number, Number(chapterResult.lastInsertRowid));
+        }
+
+        // Insert hadiths
+        for (const h of book.hadiths) {
+          const chapterId = h.chapter_number !== null ? chapterIds.get(h.chapter_number) ?? null : null;
+          const hadithResult = insertHadith.run(
+            collectionId, bookId, chapterId, h.chapter_number, h.hadith_number,
+            h.reference, h.in_book_reference,
+            h.text_ar || "", h.text_en || "",
+            h.isnad_ar, h.isnad_en, h.matn_ar, h.matn_en, h.closing_ar,
+            h.matn_ar_plain ?? plainArabic(h.matn_ar), h.isnad_ar_plain ?? plainArabic(h.isnad_ar),
+            h.split_method ?? null, h.split_confidence ?? null,
+            normalizeArabic(h.text_ar || ""), normalizeOrNull(h.matn_ar), normalizeOrNull(h.isnad_ar),
+            h.narrator, narratorId(h), h.has_variants ? 1 : 0, h.variant_of ?? null, h.variant_suffix ?? null,
+            h.source_reference, h.source_grade, h.grade_category ?? null, h.grade_en, h.grade_ar, h.url_source,
+          );
+          insertHadithRows(Number(hadithResult.lastInsertRowid), h);
+          hadithCount++;
+        }
       }
-
-      // Insert hadiths
-      for (const h of book.hadiths) {
-        insertHadith.run(
-          collectionId, bookId, h.chapter_number, h.hadith_number,
+    } else if (data.hadiths) {
+      // Flat collection
+      for (const h of data.hadiths) {
+        const hadithResult = insertHadith.run(
+          collectionId, null, null, h.chapter_number, h.hadith_number,
           h.reference, h.in_book_reference,
           h.text_ar || "", h.text_en || "",
           h.isnad_ar, h.isnad_en, h.matn_ar, h.matn_en, h.closing_ar,
-          h.narrator, h.has_variants ? 1 : 0,
-          h.source_reference, h.source_grade, h.grade_en, h.grade_ar, h.url_source,
+          h.matn_ar_plain ?? plainArabic(h.matn_ar), h.isnad_ar_plain ?? plainArabic(h.isnad_ar),
+          h.split_method ?? null, h.split_confidence ?? null,
+          normalizeArabic(h.text_ar || ""), normalizeOrNull(h.matn_ar), normalizeOrNull(h.isnad_ar),
+          h.narrator, narratorId(h), h.has_variants ? 1 : 0, h.variant_of ?? null, h.variant_suffix ?? null,
+          h.source_reference, h.source_grade, h.grade_category ?? null, h.grade_en, h.grade_ar, h.url_source,
         );
+        insertHadithRows(Number(hadithResult.lastInsertRowid), h);
         hadithCount++;
       }
     }
-  } else if (data.hadiths) {
-    // Flat collection
-    for (const h of data.hadiths) {
-      insertHadith.run(
-        collectionId, null, h.chapter_number, h.hadith_number,
-        h.reference, h.in_book_reference,
-        h.text_ar || "", h.text_en || "",
-        h.isnad_ar, h.isnad_en, h.matn_ar, h.matn_en, h.closing_ar,
-        h.narrator, h.has_variants ? 1 : 0,
-        h.source_reference, h.source_grade, h.grade_en, h.grade_ar, h.url_source,
-      );
-      hadithCount++;
+
+    totalHadiths += hadithCount;
+    console.log(`  ${collectionId.padEnd(20)} ${String(hadithCount).padStart(6)} hadiths`);
+  }
+
+  // Compilations are imported alongside the collections they cite, so link once everything is in
+  db.exec(`
+    UPDATE hadith_sources SET source_hadith_id = (
+      SELECT h.id FROM hadiths h
+      WHERE h.collection_id = hadith_sources.collection_id AND h.hadith_number = hadith_sources.hadith_number
+    )
+    WHERE hadith_number IS NOT NULL
+  `);
+
+  // Clusters refer to hadiths as "<collection>:<hadith_number>"; members missing from this build are skipped
+  const clusters = await loadClusters();
+  if (clusters) {
+    const hadithId = (ref: string) => {
+      const [collectionId, hadithNumber] = ref.split(":");
+      return (findHadith.get(collectionId, hadithNumber) as { id: number } | undefined)?.id ?? null;
+    };
+    for (const cluster of clusters.clusters) {
+      for (const member of cluster.hadiths) {
+        const id = hadithId(member.id);
+        if (id !== null) insertClusterMember.run(cluster.id, id, member.similarity, hadithId(member.matched));
+      }
     }
+  } else {
+    console.warn("  No data/clusters.json — run ohd clusters to fill hadith_clusters");
   }
 
-  totalHadiths += hadithCount;
-  console.log(`  ${collectionId.padEnd(20)} ${String(hadithCount).padStart(6)} hadiths`);
-}
+  const quranCitations = await loadQuranCitations();
+  if (quranCitations) {
+    for (const h of quranCitations.hadiths) {
+      const row = findHadith.get(h.collection, h.hadith_number) as { id: number } | undefined;
+      if (!row) continue;
+      for (const c of h.citations) {
+        insertQuranCitation.run(row.id, c.field, c.start, c.end, c.surah, c.ayah_start, c.ayah_end, c.method, c.words);
+      }
+    }
+  } else {
+    console.warn("  No data/quran-citations.json — run ohd quran to fill quran_citations");
+  }
 
-db.exec("COMMIT");
+  // Hisn al-Muslim (separate scraper, separate tables)
+  let hisn: HisnCollection | null = null;
+  try {
+    hisn = JSON.parse(await Deno.readTextFile(`${COLLECTIONS_DIR}/hisn.json`));
+  } catch {
+    console.warn(`  Skipping hisn — file not found`);
+  }
 
-// Final stats
-const stats = db.prepare("SELECT COUNT(*) as n FROM hadiths").get() as { n: number };
-const bookCount = db.prepare("SELECT COUNT(*) as n FROM books").get() as { n: number };
-const chapterCount = db.prepare("SELECT COUNT(*) as n FROM chapters").get() as { n: number };
+  if (hisn) {
+    const chapterIds = new Map<number, number>();
+    for (const chapter of hisn.chapters) {
+      const result = insertHisnChapter.run(chapter.chapter_number, chapter.name_en, chapter.name_ar);
+      chapterIds.set(chapter.chapter_number, Number(result.lastInsertRowid));
+    }
 
-console.log(`\nDatabase built: ${DB_PATH}`);
-console.log(`  Collections: ${collectionIds.length}`);
-console.log(`  Books:       ${bookCount.n}`);
-console.log(`  Chapters:    ${chapterCount.n}`);
-console.log(`  Hadiths:     ${stats.n}`);
+    for (const d of hisn.duas) {
+      const result = insertDua.run(
+        chapterIds.get(d.chapter_number) ?? null, d.chapter_number, d.dua_number, d.reference, d.text_ar || "",
+        d.transliteration, d.translation, d.context_en, d.context_transliteration, d.hisn_reference, d.url_source,
+      );
+      const duaId = Number(result.lastInsertRowid);
+
+      // Resolved as "<collection>:<hadith_number>" by ohd link hisn
+      (d.sources ?? []).forEach((source, i) => {
+        const [collectionId, hadithNumber] = source.hadith?.split(":") ?? [];
+        const hadith = source.hadith
+          ? findHadith.get(collectionId, hadithNumber) as { id: number } | undefined
+          : undefined;
+        insertDuaSource.run(
+          duaId, i + 1, source.work, source.collection, source.locator, source.locator_type,
+          hadith?.id ?? null, source.confidence,
+        );
+      });
+    }
+    console.log(`  ${"hisn".padEnd(20)} ${String(hisn.duas.length).padStart(6)} duas`);
+  }
 
-// Get file size
-const fileInfo = await Deno.stat(DB_PATH);
-const sizeMB = (fileInfo.size / 1024 / 1024).toFixed(1);
-console.log(`  Size:        ${sizeMB} MB`);
+  db.exec("COMMIT");
+
+  // ============================================================================
+  // Full-text search
+  // ============================================================================
+
+  // Indexed in one pass after the import; the triggers keep it in sync with later edits
+  const columns = FTS_COLUMNS.join(", ");
+  const newValues = FTS_COLUMNS.map((c) => `new.${c}`).join(", ");
+  const oldValues = FTS_COLUMNS.map((c) => `old.${c}`).join(", ");
+
+  db.exec(`
+    CREATE VIRTUAL TABLE hadiths_fts USING fts5(
+      ${columns},
+      content='hadiths',
+      content_rowid='id',
+      tokenize='unicode61 remove_diacritics 2'
+    );
+
+    INSERT INTO hadiths_fts(hadiths_fts) VALUES('rebuild');
+    INSERT INTO hadiths_fts(hadiths_fts) VALUES('optimize');
+
+    CREATE TRIGGER hadiths_fts_insert AFTER INSERT ON hadiths BEGIN
+      INSERT INTO hadiths_fts(rowid, ${columns}) VALUES (new.id, ${newValues});
+    END;
+
+    CREATE TRIGGER hadiths_fts_delete AFTER DELETE ON hadiths BEGIN
+      INSERT INTO hadiths_fts(hadiths_fts, rowid, ${columns}) VALUES ('delete', old.id, ${oldValues});
+    END;
+
+    CREATE TRIGGER hadiths_fts_update AFTER UPDATE ON hadiths BEGIN
+      INSERT INTO hadiths_fts(hadiths_fts, rowid, ${columns}) VALUES ('delete', old.id, ${oldValues});
+      INSERT INTO hadiths_fts(rowid, ${columns}) VALUES (new.id, ${newValues});
+    END;
+  `);
+
+  // Final stats
+  const stats = db.prepare("SELECT COUNT(*) as n FROM hadiths").get() as { n: number };
+  const bookCount = db.prepare("SELECT COUNT(*) as n FROM books").get() as { n: number };
+  const chapterCount = db.prepare("SELECT COUNT(*) as n FROM chapters").get() as { n: number };
+  const collectionCount = db.prepare("SELECT COUNT(*) as n FROM collections").get() as { n: number };
+  const duaCount = db.prepare("SELECT COUNT(*) as n FROM duas").get() as { n: number };
+  const narratorCount = db.prepare(
+    "SELECT COUNT(*) as n, (SELECT COUNT(*) FROM hadiths WHERE narrator_id IS NOT NULL) as linked FROM narrators",
+  ).get() as { n: number; linked: number };
+  const gradeCount = db.prepare("SELECT COUNT(*) as n FROM hadith_grades").get() as { n: number };
+  const isnadLinks = db.prepare(
+    "SELECT COUNT(*) as n, COUNT(narrator_id) as linked FROM isnad_links",
+  ).get() as { n: number; linked: number };
+  const alignedSegments = db.prepare(
+    "SELECT COUNT(*) as n, COUNT(DISTINCT hadith_id) as hadiths FROM aligned_segments",
+  ).get() as { n: number; hadiths: number };
+  const clusterCount = db.prepare(
+    "SELECT COUNT(DISTINCT cluster_id) as n, COUNT(*) as hadiths FROM hadith_clusters",
+  ).get() as { n: number; hadiths: number };
+  const quranCount = db.prepare(
+    "SELECT COUNT(*) as n, COUNT(DISTINCT hadith_id) as hadiths FROM quran_citations",
+  ).get() as { n: number; hadiths: number };
+  const citations = db.prepare(
+    "SELECT COUNT(*) as n, COUNT(source_hadith_id) as linked FROM hadith_sources",
+  ).get() as { n: number; linked: number };
+
+  console.log(`\nDatabase built: ${DB_PATH}`);
+  console.log(`  Collections: ${collectionCount.n}`);
+  console.log(`  Books:       ${bookCount.n}`);
+  console.log(`  Chapters:    ${chapterCount.n}`);
+  console.log(`  Hadiths:     ${stats.n}`);
+  console.log(`  Narrators:   ${narratorCount.n} (${narratorCount.linked} hadiths linked)`);
+  console.log(`  Isnad links: ${isnadLinks.n} (${isnadLinks.linked} with a narrator)`);
+  console.log(`  Aligned:     ${alignedSegments.n} segments (${alignedSegments.hadiths} hadiths)`);
+  console.log(`  Clusters:    ${clusterCount.n} (${clusterCount.hadiths} hadiths)`);
+  console.log(`  Quran:       ${quranCount.n} citations (${quranCount.hadiths} hadiths)`);
+  console.log(`  Grades:      ${gradeCount.n}`);
+  console.log(`  Citations:   ${citations.n} (${citations.linked} linked)`);
+  console.log(`  Duas:        ${duaCount.n}`);
+
+  // Close first so the WAL is checkpointed into the main file before measuring it
+  db.close();
+
+  // Get file size
+  const fileInfo = await Deno.stat(DB_PATH);
+  const sizeMB = (fileInfo.size / 1024 / 1024).toFixed(1);
+  console.log(`  Size:        ${sizeMB} MB`);
+
+  return {
+    output: DB_PATH,
+    collections: collectionCount.n,
+    hadiths: stats.n,
+    duas: duaCount.n,
+    bytes: fileInfo.size,
+  };
+}
 
-db.close();
+if (import.meta.main) {
+  await buildSqlite();
+}
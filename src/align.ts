@@ -0,0 +1,180 @@
+/**
+ * Sentence-level alignment of matn_ar and matn_en
+ *
+ * Both sides are cut at sentence punctuation (. ? ! ؟ ؛ :), then aligned with
+ * the length-based method of Gale & Church (1993): a dynamic program over
+ * 1-1, 1-2, 2-1, 2-2, 1-0 and 0-1 beads, where a bead's cost is how far the
+ * English length strays from the Arabic length times the hadith's own
+ * English/Arabic length ratio. Arabic is measured without diacritics.
+ *
+ * The isnad is aligned away: matn_ar starts after the isnad boundary found by
+ * the parser, and a regex isnad (split_method "regex") is cut from it here.
+ * Quoted speech opening on one side only lowers a bead's score.
+ */
+
+import type { ScrapedHadith } from "./types.ts";
+import { normalizeArabic } from "./arabic.ts";
+
+export type Bead = "1-1" | "1-2" | "2-1" | "2-2" | "1-0" | "0-1";
+
+export interface SegmentPair {
+  /** 1-based within the hadith */
+  position: number;
+  /** Empty for a 0-1 bead */
+  ar: string;
+  /** Empty for a 1-0 bead */
+  en: string;
+  bead: Bead;
+  /** 0-1: agreement of the two lengths (lowered when quoted speech opens on one side only) */
+  score: number;
+}
+
+/** Sentence ends, kept with the sentence before them */
+const ARABIC_BREAK = /(?<=[.!؟?؛:])\s+/;
+const ENGLISH_BREAK = /(?<=[.!?;:]["”’']?)\s+(?=["“‘']?[A-Z0-9"“‘'(])/;
+
+/** Segments shorter than this (characters) are merged into the previous one */
+const MIN_SEGMENT = 8;
+
+/** Abbreviations that end a segment without ending the sentence ("Humaid b. 'Abdur-Rahman") */
+const ABBREVIATION = /(?:^|\s)(?:b|bt|i\.e|e\.g|cf|viz|no|vol|p)\.$/i;
+
+/** Bead priors of Gale & Church; the 1-2/2-1 and 1-0/0-1 mass is split between the two */
+const BEADS: { bead: Bead; ar: number; en: number; prior: number }[] = [
+  { bead: "1-1", ar: 1, en: 1, prior: 0.89 },
+  { bead: "1-2", ar: 1, en: 2, prior: 0.0445 },
+  { bead: "2-1", ar: 2, en: 1, prior: 0.0445 },
+  { bead: "2-2", ar: 2, en: 2, prior: 0.011 },
+  { bead: "1-0", ar: 1, en: 0, prior: 0.00495 },
+  { bead: "0-1", ar: 0, en: 1, prior: 0.00495 },
+];
+
+/** Variance of the English length per character (Gale & Church's s²) */
+const VARIANCE = 6.8;
+
+/** Score factor when quoted speech opens on one side of a bead only */
+const QUOTE_MISMATCH = 0.8;
+const OPENING_QUOTE = /(?:^|[\s:،,])["“«]/;
+
+function segment(text: string, pattern: RegExp): string[] {
+  const segments: string[] = [];
+  for (const part of text.split(pattern)) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+    const previous = segments.at(-1);
+    if (previous !== undefined && (trimmed.length < MIN_SEGMENT || ABBREVIATION.test(previous))) {
+      segments[segments.length - 1] += ` ${trimmed}`;
+    } else {
+      segments.push(trimmed);
+    }
+  }
+  return segments;
+}
+
+export function segmentArabic(text: string): string[] {
+  return segment(text, ARABIC_BREAK);
+}
+
+export function segmentEnglish(text: string): string[] {
+  return segment(text, ENGLISH_BREAK);
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 26.2.17) */
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const d = 0.3989423 * Math.exp(-z * z / 2);
+  const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  return z > 0 ? 1 - p : p;
+}
+
+/** Probability that English of length `en` translates Arabic of length `ar` (already scaled by the ratio) */
+function lengthMatch(ar: number, en: number): number {
+  if (ar === 0 && en === 0) return 1;
+  const delta = (en - ar) / Math.sqrt(Math.max(1, (ar + en) / 2) * VARIANCE);
+  return 2 * (1 - normalCdf(Math.abs(delta)));
+}
+
+/**
+ * Align Arabic and English segments of one text
+ */
+export function alignSegments(ar: string[], en: string[]): SegmentPair[] {
+  if (ar.length === 0 || en.length === 0) return [];
+
+  const arLengths = ar.map((s) => normalizeArabic(s).length);
+  const enLengths = en.map((s) => s.length);
+  const ratio = enLengths.reduce((a, b) => a + b, 0) / Math.max(1, arLengths.reduce((a, b) => a + b, 0));
+
+  // cost[i][j]: best cost of aligning the first i Arabic and j English segments
+  const cost = Array.from({ length: ar.length + 1 }, () => new Array<number>(en.length + 1).fill(Infinity));
+  const back = Array.from(
+    { length: ar.length + 1 },
+    () => new Array<typeof BEADS[number] | null>(en.length + 1).fill(null),
+  );
+  cost[0][0] = 0;
+
+  const beadScore = (bead: typeof BEADS[number], i: number, j: number): number => {
+    const arText = ar.slice(i - bead.ar, i);
+    const enText = en.slice(j - bead.en, j);
+    const arLength = arLengths.slice(i - bead.ar, i).reduce((a, b) => a + b, 0) * ratio;
+    const enLength = enLengths.slice(j - bead.en, j).reduce((a, b) => a + b, 0);
+    const quotes = bead.ar > 0 && bead.en > 0 &&
+        OPENING_QUOTE.test(arText.join(" ")) !== OPENING_QUOTE.test(enText.join(" "))
+      ? QUOTE_MISMATCH
+      : 1;
+    return lengthMatch(arLength, enLength) * quotes;
+  };
+
+  for (let i = 0; i <= ar.length; i++) {
+    for (let j = 0; j <= en.length; j++) {
+      if (i === 0 && j === 0) continue;
+      for (const bead of BEADS) {
+        if (i < bead.ar || j < bead.en) continue;
+        const previous = cost[i - bead.ar][j - bead.en];
+        if (previous === Infinity) continue;
+        const total = previous - Math.log(Math.max(beadScore(bead, i, j) * bead.prior, 1e-12));
+        if (total < cost[i][j]) {
+          cost[i][j] = total;
+          back[i][j] = bead;
+        }
+      }
+    }
+  }
+
+  const pairs: Omit<SegmentPair, "position">[] = [];
+  for (let i = ar.length, j = en.length; i > 0 || j > 0;) {
+    const bead = back[i][j]!;
+    pairs.push({
+      ar: ar.slice(i - bead.ar, i).join(" "),
+      en: en.slice(j - bead.en, j).join(" "),
+      bead: bead.bead,
+      score: Math.round(beadScore(bead, i, j) * 1000) / 1000,
+    });
+    i -= bead.ar;
+    j -= bead.en;
+  }
+
+  return pairs.reverse().map((p, i) => ({ position: i + 1, ...p }));
+}
+
+/**
+ * Aligned matn segments of a hadith; empty when either side is missing
+ */
+export function alignHadith(
+  h: Pick<ScrapedHadith, "isnad_ar" | "matn_ar" | "matn_en"> & Partial<Pick<ScrapedHadith, "isnad_en" | "split_method">>,
+): SegmentPair[] {
+  if (!h.matn_ar || !h.matn_en) return [];
+  let matnAr = h.matn_ar;
+  let matnEn = h.matn_en;
+  // A regex isnad is not cut from matn_ar and matn_en by the parser
+  if (h.split_method === "regex") {
+    matnAr = cutIsnad(matnAr, h.isnad_ar);
+    matnEn = cutIsnad(matnEn, h.isnad_en ?? null);
+  }
+  return alignSegments(segmentArabic(matnAr), segmentEnglish(matnEn));
+}
+
+/** The text after its leading isnad and the punctuation ending it ("Narrated Abu Huraira:") */
+function cutIsnad(text: string, isnad: string | null): string {
+  if (!isnad || !text.startsWith(isnad)) return text;
+  return text.slice(isnad.length).replace(/^[\s:،,]+/, "");
+}
@@ -0,0 +1,96 @@
+/**
+ * Arabic text normalization
+ *
+ * Three profiles, each a set of the steps below:
+ *   display  invisible characters (RLM, LRM, ZWSP, ZWJ, ZWNJ, BOM) dropped, NBSP
+ *            to space, whitespace collapsed; marks keep the order sunnah.com
+ *            gives them. The parser stores text this way.
+ *   ml       display, plus NFC (sunnah.com orders shadda and haraka either
+ *            way), tashkeel, Quranic annotation marks, the dagger alef
+ *            and tatweel stripped, and presentation forms and honorific
+ *            ligatures expanded (ﷺ → صلى الله عليه وسلم). Letters are kept as
+ *            written. The *_plain fields are this profile.
+ *   search   ml, plus letter variants that users commonly type interchangeably folded:
+ *              أ إ آ ٱ → ا    ى → ي    ؤ → و    ئ → ي    ة → ه
+ *            The *_normalized SQLite columns are this profile, so queries
+ *            against them must be normalized the same way.
+ */
+
+export type ArabicProfile = "display" | "ml" | "search";
+
+export interface ArabicNormalization {
+  /** Unicode NFC, composing letters and ordering combining marks */
+  nfc: boolean;
+  /** Harakat, tanween, shadda, sukun */
+  tashkeel: boolean;
+  /** Small high/low Quranic marks and the dagger alef */
+  quranic_marks: boolean;
+  tatweel: boolean;
+  /** Presentation forms and ligatures (ﷺ ﷻ ﷲ) to their letters */
+  ligatures: boolean;
+  /** أ إ آ ٱ → ا */
+  alef: boolean;
+  /** ؤ → و, ئ → ي */
+  hamza: boolean;
+  /** ى → ي */
+  alef_maqsura: boolean;
+  /** ة → ه */
+  ta_marbuta: boolean;
+}
+
+export const PROFILES: Record<ArabicProfile, ArabicNormalization> = {
+  display: {
+    nfc: false, tashkeel: false, quranic_marks: false, tatweel: false, ligatures: false,
+    alef: false, hamza: false, alef_maqsura: false, ta_marbuta: false,
+  },
+  ml: {
+    nfc: true, tashkeel: true, quranic_marks: true, tatweel: true, ligatures: true,
+    alef: false, hamza: false, alef_maqsura: false, ta_marbuta: false,
+  },
+  search: {
+    nfc: true, tashkeel: true, quranic_marks: true, tatweel: true, ligatures: true,
+    alef: true, hamza: true, alef_maqsura: true, ta_marbuta: true,
+  },
+};
+
+const INVISIBLE = /[\u200F\u200E\u200B\u200C\u200D\uFEFF]/g;
+/** Fathatan to sukun, and the marks after them (maddah, hamza above/below, ...) */
+const TASHKEEL = /[\u064B-\u065F]/g;
+/** Small high/low Quranic marks and the dagger alef */
+const QURANIC_MARKS = /[\u0610-\u061A\u0670\u06D6-\u06DC\u06DF-\u06E8\u06EA-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+/** Arabic Presentation Forms-A and -B, ligatures included */
+const PRESENTATION_FORMS = /[\uFB50-\uFDFF\uFE70-\uFEFC]+/g;
+
+const LETTER_FOLDS: [keyof ArabicNormalization, RegExp, string][] = [
+  ["alef", /[\u0622\u0623\u0625\u0671]/g, "\u0627"], // آ أ إ ٱ → ا
+  ["alef_maqsura", /\u0649/g, "\u064A"], // ى → ي
+  ["hamza", /\u0624/g, "\u0648"], // ؤ → و
+  ["hamza", /\u0626/g, "\u064A"], // ئ → ي
+  ["ta_marbuta", /\u0629/g, "\u0647"], // ة → ه
+];
+
+/**
+ * Normalize Arabic text with a profile (search by default) or a custom set of steps
+ */
+export function normalizeArabic(text: string, profile: ArabicProfile | ArabicNormalization = "search"): string {
+  const steps = typeof profile === "string" ? PROFILES[profile] : profile;
+
+  let result = text.replace(INVISIBLE, "").replace(/\u00A0/g, " ");
+  if (steps.nfc) result = result.normalize("NFC");
+  if (steps.ligatures) result = result.replace(PRESENTATION_FORMS, (forms) => forms.normalize("NFKC"));
+  if (steps.tashkeel) result = result.replace(TASHKEEL, "");
+  if (steps.quranic_marks) result = result.replace(QURANIC_MARKS, "");
+  if (steps.tatweel) result = result.replace(TATWEEL, "");
+  for (const [step, pattern, replacement] of LETTER_FOLDS) {
+    if (steps[step]) result = result.replace(pattern, replacement);
+  }
+  return result.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Arabic without diacritics, letters as written (the ml profile): matn_ar_plain, isnad_ar_plain
+ */
+export function plainArabic(text: string | null): string | null {
+  return text ? normalizeArabic(text, "ml") : null;
+}
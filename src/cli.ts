@@ -0,0 +1,374 @@
+/**
+ * ohd — Open Hadith Data command line
+ *
+ * Usage:
+ *   ohd scrape [collection|all|hisn] [--from-cache [--snapshots <manifest>]] [--concurrency N]
+ *              [--rate-limit-ms N] [--burst N]
+ *   ohd rescrape <collection> [--from-cache [--snapshots <manifest>]] [--concurrency N]
+ *                [--rate-limit-ms N] [--burst N]
+ *   ohd sample <collection> [--books N] [--from-cache [--snapshots <manifest>]] [--rate-limit-ms N] [--burst N]
+ *   ohd validate [--config <file>] [--report-dir <dir>]
+ *   ohd build sqlite|csv|json|graph|parallel|dataset
+ *   ohd status
+ *   ohd reset [--collection <id>] [--yes]
+ *   ohd link hisn
+ *   ohd grades [--report-dir <dir>]
+ *   ohd narrators
+ *   ohd clusters
+ *   ohd quran
+ *   ohd diff <previous-dir> [--current <dir>] [--report-dir <dir>]
+ *
+ * Every command accepts --json (print the result as JSON on stdout; progress
+ * goes to stderr) and --help.
+ *
+ * Exit codes: 0 success, 1 command failed (errors, validation issues),
+ * 2 invalid usage.
+ */
+
+import { parseArgs } from "@std/cli/parse-args";
+import { COLLECTIONS, type CollectionId, type ScrapeOptions } from "./types.ts";
+import { getStatus, resetState, scrapeAllCollections, scrapeCollection } from "./scraper.ts";
+import { loadState, log } from "./state.ts";
+import { rescrapeCollection } from "./rescrape.ts";
+import { sampleCollection } from "./sample.ts";
+import { validateAll } from "./validate.ts";
+import { pinSnapshots } from "./snapshot.ts";
+import { setRateLimit } from "./http.ts";
+import { diffDatasets } from "./diff.ts";
+import { writeGradeReport } from "./grades.ts";
+import { writeNarratorRegistry } from "./narrators.ts";
+import { writeClusters } from "./similarity.ts";
+import { writeQuranCitations } from "./quran.ts";
+import { scrapeHisn } from "./hisn/scraper.ts";
+import { linkHisn } from "./hisn/sources.ts";
+import { buildSqlite } from "../scripts/build-sqlite.ts";
+import { buildCsv } from "../scripts/build-csv.ts";
+import { buildJson } from "../scripts/build-json.ts";
+import { buildGraph } from "../scripts/build-graph.ts";
+import { buildParallel } from "../scripts/build-parallel.ts";
+import { buildDataset } from "../scripts/build-dataset.ts";
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `
+ohd — Open Hadith Data
+
+Usage: ohd <command> [options]
+
+Commands:
+  scrape [collection|all|hisn]   Scrape collections, resuming from saved state
+  rescrape <collection>          Re-scrape one collection, ignoring saved state
+  sample <collection>            Scrape the first few books and report coverage
+  validate                       Check scraped data; writes report.json and report.md
+  build sqlite|csv|json|graph|parallel|dataset
+                                 Build release artifacts in dist/ (graph: narrator transmissions,
+                                 parallel: aligned Arabic-English matn as TMX and JSONL,
+                                 dataset: ML tasks with train/dev/test splits and a dataset card)
+  status                         Show scraper progress and recent errors
+  reset                          Clear scraper progress
+  link hisn                      Link Hisn al-Muslim source references to hadiths; reports unresolved ones
+  grades                         Classify every grade with the grade taxonomy; reports unmapped grade strings
+  narrators                      Cluster narrator names into data/narrators.json (used by the builds)
+  clusters                       Cluster parallel narrations across collections into data/clusters.json
+  quran                          Find Quranic quotations in the matn into data/quran-citations.json
+                                 (against the Tanzil text in resources/quran-simple-clean.txt)
+  diff <previous-dir>            Compare data/collections/ with a previous dataset; writes diff.json and diff.md
+
+Options:
+  --from-cache          Re-parse stored HTML snapshots, no network (scrape, rescrape, sample)
+  --snapshots <file>    With --from-cache, re-parse the snapshots of a release's snapshots.json
+  --concurrency N       Books in flight at once, default 4 (scrape, rescrape)
+  --rate-limit-ms N     Milliseconds between requests to one host, default 1500 (scrape, rescrape, sample)
+  --burst N             Requests allowed back to back before the limit applies, default 1
+                        (the defaults give at most 2,400 pages an hour, whatever --concurrency is)
+  --books N             Books to fetch, default 3 (sample)
+  --collection <id>     Reset only this collection (reset)
+  --yes, -y             Do not ask for confirmation (reset)
+  --current <dir>       Dataset to compare, default data/collections (diff)
+  --config <file>       Validation thresholds, default validation.json (validate)
+  --report-dir <dir>    Where to write the report, default dist/validation, dist/diff or dist/grades
+  --json                Print the result as JSON on stdout; progress goes to stderr
+  --help, -h            Show this help
+
+Collections: ${Object.keys(COLLECTIONS).join(", ")}
+
+Exit codes: 0 success, 1 command failed, 2 invalid usage
+`;
+
+/**
+ * Invalid command line (exit code 2)
+ */
+class UsageError extends Error {}
+
+type Flags = ReturnType<typeof parseFlags>;
+
+interface CommandOutcome {
+  ok: boolean;
+  result: unknown;
+}
+
+function parseFlags(argv: string[]) {
+  return parseArgs(argv, {
+    boolean: ["json", "help", "from-cache", "yes"],
+    string: [
+      "concurrency",
+      "rate-limit-ms",
+      "burst",
+      "books",
+      "collection",
+      "current",
+      "config",
+      "report-dir",
+      "snapshots",
+    ],
+    alias: { h: "help", y: "yes" },
+    unknown: (arg) => {
+      if (arg.startsWith("-")) throw new UsageError(`Unknown option: ${arg}`);
+      return true;
+    },
+  });
+}
+
+function parseCollection(value: string | undefined): CollectionId {
+  if (!value) throw new UsageError("Missing collection");
+  if (!(value in COLLECTIONS)) {
+    throw new UsageError(`Unknown collection: ${value}`);
+  }
+  return value as CollectionId;
+}
+
+function parsePositiveInt(name: string, value: string | undefined, fallback?: number): number | undefined {
+  if (value === undefined) return fallback;
+  const n = parseInt(value, 10);
+  if (!Number.isInteger(n) || n < 1 || String(n) !== value) {
+    throw new UsageError(`Invalid --${name} value: ${value}`);
+  }
+  return n;
+}
+
+function scrapeOptions(flags: Flags): ScrapeOptions {
+  return {
+    fromCache: flags["from-cache"],
+    concurrency: parsePositiveInt("concurrency", flags.concurrency),
+  };
+}
+
+/**
+ * --rate-limit-ms, --burst: the request budget shared by every worker
+ */
+function applyRateLimit(flags: Flags): void {
+  setRateLimit({
+    intervalMs: parsePositiveInt("rate-limit-ms", flags["rate-limit-ms"]),
+    burst: parsePositiveInt("burst", flags.burst),
+  });
+}
+
+/**
+ * --snapshots: serve --from-cache from a release manifest
+ */
+async function pinReleaseSnapshots(flags: Flags): Promise<void> {
+  if (flags.snapshots === undefined) return;
+  if (!flags["from-cache"]) throw new UsageError("--snapshots requires --from-cache");
+  await pinSnapshots(flags.snapshots);
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+async function scrape(args: string[], flags: Flags): Promise<CommandOutcome> {
+  const target = args[0] ?? "all";
+  const options = scrapeOptions(flags);
+  applyRateLimit(flags);
+  await pinReleaseSnapshots(flags);
+
+  if (target === "all") {
+    const summary = await scrapeAllCollections(options);
+    return { ok: summary.failed.length === 0 && summary.errors === 0, result: summary };
+  }
+
+  if (target === "hisn") {
+    const result = await scrapeHisn({ fromCache: options.fromCache });
+    return { ok: true, result: { collection: "hisn", stats: result.stats } };
+  }
+
+  const collectionId = parseCollection(target);
+  const state = await loadState();
+  if (!options.fromCache && state.completed_collections.includes(collectionId)) {
+    log.info(`Collection ${collectionId} already completed (ohd reset --collection ${collectionId} to scrape again)`);
+    return { ok: true, result: { collection: collectionId, skipped: true } };
+  }
+
+  // Failed books are recorded as errors and left out of the result, as for scrape all
+  const errorsBefore = state.errors.length;
+  const result = await scrapeCollection(collectionId, options);
+  const errors = (await loadState()).errors.length - errorsBefore;
+  return {
+    ok: result !== null && errors === 0,
+    result: { collection: collectionId, skipped: false, errors, stats: result?.stats ?? null },
+  };
+}
+
+async function rescrape(args: string[], flags: Flags): Promise<CommandOutcome> {
+  const collectionId = parseCollection(args[0]);
+  applyRateLimit(flags);
+  await pinReleaseSnapshots(flags);
+  const result = await rescrapeCollection(collectionId, scrapeOptions(flags));
+  const expectedBooks = COLLECTIONS[collectionId].books?.length ?? 0;
+
+  return {
+    ok: result.stats.total_books === expectedBooks,
+    result: { collection: collectionId, stats: result.stats, expected_books: expectedBooks },
+  };
+}
+
+async function sample(args: string[], flags: Flags): Promise<CommandOutcome> {
+  const collectionId = parseCollection(args[0]);
+  const books = parsePositiveInt("books", flags.books, 3)!;
+  applyRateLimit(flags);
+  await pinReleaseSnapshots(flags);
+  const result = await sampleCollection(collectionId, books, { fromCache: flags["from-cache"] });
+  return { ok: result.errors.length === 0, result };
+}
+
+async function validate(_args: string[], flags: Flags): Promise<CommandOutcome> {
+  const report = await validateAll({ configPath: flags.config, reportDir: flags["report-dir"] });
+  return { ok: report.valid, result: report };
+}
+
+async function build(args: string[]): Promise<CommandOutcome> {
+  switch (args[0]) {
+    case "sqlite":
+      return { ok: true, result: await buildSqlite() };
+    case "csv":
+      return { ok: true, result: await buildCsv() };
+    case "json":
+      return { ok: true, result: await buildJson() };
+    case "graph":
+      return { ok: true, result: await buildGraph() };
+    case "parallel":
+      return { ok: true, result: await buildParallel() };
+    case "dataset":
+      return { ok: true, result: await buildDataset() };
+    default:
+      throw new UsageError(`Usage: ohd build sqlite|csv|json|graph|parallel|dataset`);
+  }
+}
+
+async function status(): Promise<CommandOutcome> {
+  return { ok: true, result: await getStatus() };
+}
+
+async function reset(_args: string[], flags: Flags): Promise<CommandOutcome> {
+  const collectionId = flags.collection === undefined ? undefined : parseCollection(flags.collection);
+  const scope = collectionId ? `progress for ${collectionId}` : "all progress";
+
+  if (!flags.yes) {
+    if (!Deno.stdin.isTerminal()) {
+      throw new UsageError(`Refusing to reset ${scope} without --yes in non-interactive mode`);
+    }
+    if (!confirm(`This will reset ${scope}. Are you sure?`)) {
+      log.info("Reset cancelled");
+      return { ok: true, result: { reset: false, collection: collectionId ?? null } };
+    }
+  }
+
+  await resetState(collectionId);
+  return { ok: true, result: { reset: true, collection: collectionId ?? null } };
+}
+
+async function link(args: string[]): Promise<CommandOutcome> {
+  if (args[0] !== "hisn") throw new UsageError("Usage: ohd link hisn");
+  return { ok: true, result: await linkHisn() };
+}
+
+async function grades(_args: string[], flags: Flags): Promise<CommandOutcome> {
+  return { ok: true, result: await writeGradeReport({ reportDir: flags["report-dir"] }) };
+}
+
+async function narrators(): Promise<CommandOutcome> {
+  return { ok: true, result: await writeNarratorRegistry() };
+}
+
+async function clusters(): Promise<CommandOutcome> {
+  return { ok: true, result: await writeClusters() };
+}
+
+async function quran(): Promise<CommandOutcome> {
+  return { ok: true, result: await writeQuranCitations() };
+}
+
+async function diff(args: string[], flags: Flags): Promise<CommandOutcome> {
+  if (!args[0]) throw new UsageError("Usage: ohd diff <previous-dir> [--current <dir>] [--report-dir <dir>]");
+  return { ok: true, result: await diffDatasets(args[0], flags.current, { reportDir: flags["report-dir"] }) };
+}
+
+const COMMANDS: Record<string, (args: string[], flags: Flags) => Promise<CommandOutcome>> = {
+  scrape,
+  rescrape,
+  sample,
+  validate,
+  build,
+  status,
+  reset,
+  link,
+  grades,
+  narrators,
+  clusters,
+  quran,
+  diff,
+};
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+async function main(argv: string[]): Promise<number> {
+  let flags: Flags;
+  try {
+    flags = parseFlags(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_USAGE;
+  }
+
+  const [command, ...args] = flags._.map(String);
+
+  if (!command || flags.help) {
+    console.log(USAGE);
+    return flags.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const run = COMMANDS[command];
+  if (!run) {
+    console.error(`Unknown command: ${command}\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  // In --json mode stdout carries only the result document
+  const print = console.log;
+  if (flags.json) console.log = console.error;
+
+  try {
+    const { ok, result } = await run(args, flags);
+    if (flags.json) print(JSON.stringify({ command, ok, result }, null, 2));
+    return ok ? EXIT_OK : EXIT_FAILURE;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const usage = error instanceof UsageError;
+    if (flags.json) {
+      print(JSON.stringify({ command, ok: false, error: message }, null, 2));
+    } else {
+      log.error(usage ? message : `Fatal error: ${message}`);
+    }
+    return usage ? EXIT_USAGE : EXIT_FAILURE;
+  } finally {
+    console.log = print;
+  }
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
@@ -0,0 +1,18 @@
+/**
+ * CSV rows (RFC 4180 quoting), shared by the CSV and graph builds
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+function escapeCsv(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  const str = String(value);
+  if (str.includes(",") || str.includes('"') || str.includes("\n") || str.includes("\r")) {
+    return '"' + str.replace(/"/g, '""') + '"';
+  }
+  return str;
+}
+
+export function writeCsvRow(fields: CsvValue[]): string {
+  return fields.map(escapeCsv).join(",") + "\n";
+}
@@ -0,0 +1,101 @@
+/**
+ * Deterministic train/dev/test splits for the ML dataset (ohd build dataset)
+ *
+ * Hadiths that share text are kept in one split, so a test hadith is never
+ * seen in training through another copy. A leakage group joins:
+ *   - variants of one hadith (Muslim 8a, 8b)
+ *   - compilation hadiths and the hadith they cite (Riyad as-Salihin 7 → Muslim 2564c)
+ *   - hadiths whose normalized matn is identical up to punctuation
+ *   - parallel narrations clustered by `ohd clusters` (data/clusters.json)
+ *
+ * Splits are stratified by collection. Each group belongs to the collection
+ * of its first primary hadith, and a collection's groups are ordered by the
+ * SHA-256 of their first hadith id: test, then dev, take groups in that
+ * order up to their SPLIT_RATIOS share of the collection's hadiths (at
+ * least one group each), and train takes the rest. The same
+ * data always gives the same splits; a new hadith shifts the quotas of its
+ * collection, which moves at most the groups at the split boundaries.
+ */
+
+import { COLLECTIONS, type CollectionId, type ScrapedHadith } from "./types.ts";
+import { sha256 } from "./snapshot.ts";
+import { type ClusterSet, groupByKeys, matnKey } from "./similarity.ts";
+
+export const SPLITS = ["train", "dev", "test"] as const;
+export type DatasetSplit = typeof SPLITS[number];
+
+export const SPLIT_RATIOS: Record<DatasetSplit, number> = { train: 0.8, dev: 0.1, test: 0.1 };
+
+export interface DatasetHadith {
+  collection: CollectionId;
+  hadith: Pick<ScrapedHadith, "hadith_number" | "matn_ar" | "variant_of" | "source_citations">;
+}
+
+/** Stable record id: "muslim:2564c" */
+export function datasetId({ collection, hadith }: DatasetHadith): string {
+  return `${collection}:${hadith.hadith_number}`;
+}
+
+/**
+ * Group hadiths that must share a split; returns hadith indices per group, in
+ * input order
+ */
+export function leakageGroups(hadiths: DatasetHadith[], clusters: ClusterSet | null = null): number[][] {
+  const clusterOf = new Map<string, number>();
+  for (const cluster of clusters?.clusters ?? []) {
+    for (const { id } of cluster.hadiths) clusterOf.set(id, cluster.id);
+  }
+
+  return groupByKeys(hadiths, (h) => {
+    const { collection, hadith } = h;
+    const id = datasetId(h);
+    return [
+      `id:${id}`,
+      `variant:${collection}:${hadith.variant_of ?? hadith.hadith_number}`,
+      ...(hadith.source_citations ?? []).map((c) => c.hadith_number ? `id:${c.collection}:${c.hadith_number}` : null),
+      matnKey(hadith.matn_ar),
+      clusterOf.has(id) ? `cluster:${clusterOf.get(id)}` : null,
+    ];
+  });
+}
+
+/**
+ * Split of every hadith, in input order
+ */
+export async function assignSplits(
+  hadiths: DatasetHadith[],
+  groups: number[][] = leakageGroups(hadiths),
+): Promise<DatasetSplit[]> {
+  const byCollection = new Map<CollectionId, { hash: string; members: number[] }[]>();
+  for (const members of groups) {
+    const home = members.find((i) => COLLECTIONS[hadiths[i].collection].type === "primary") ?? members[0];
+    const hash = await sha256(datasetId(hadiths[members[0]]));
+    const collection = hadiths[home].collection;
+    if (!byCollection.has(collection)) byCollection.set(collection, []);
+    byCollection.get(collection)!.push({ hash, members });
+  }
+
+  const splits = new Array<DatasetSplit>(hadiths.length);
+  for (const collectionGroups of byCollection.values()) {
+    collectionGroups.sort((a, b) => a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0);
+    const total = collectionGroups.reduce((sum, g) => sum + g.members.length, 0);
+
+    // Test and dev take groups in hash order while they fit the quota (always
+    // the first one), leaving train at least one group
+    let next = 0;
+    for (const split of ["test", "dev"] as const) {
+      let count = 0;
+      while (next < collectionGroups.length - 1) {
+        const { members } = collectionGroups[next];
+        if (count > 0 && count + members.length > SPLIT_RATIOS[split] * total) break;
+        for (const i of members) splits[i] = split;
+        count += members.length;
+        next++;
+      }
+    }
+    for (const { members } of collectionGroups.slice(next)) {
+      for (const i of members) splits[i] = "train";
+    }
+  }
+  return splits;
+}
@@ -0,0 +1,291 @@
+/**
+ * Compare the scraped dataset against a previous one (`ohd diff <previous-dir>`)
+ *
+ * Both directories hold <collection>.json files in the data/collections/ format
+ * (e.g. an unzipped collections-json.zip from an earlier release). Hadiths are
+ * matched on (collection, hadith_number); for hadiths present in both, every
+ * field in COMPARED_FIELDS is compared.
+ *
+ * The diff is written to <report-dir>/diff.json and diff.md for release notes
+ * and PR reviews.
+ */
+
+import { ensureDir } from "@std/fs";
+import { COLLECTIONS, type CollectionId, type ScrapedCollection, type ScrapedHadith } from "./types.ts";
+
+const DEFAULT_REPORT_DIR = "dist/diff";
+
+/** Sample changes kept per field and collection */
+const SAMPLES_PER_FIELD = 3;
+/** Characters of unchanged text shown around a change */
+const EXCERPT_CONTEXT = 40;
+/** Hadith numbers listed per line in the Markdown report */
+const MAX_MARKDOWN_NUMBERS = 50;
+
+/** Hadith fields compared between datasets */
+const COMPARED_FIELDS = [
+  "text_ar",
+  "text_en",
+  "isnad_ar",
+  "isnad_en",
+  "matn_ar",
+  "matn_en",
+  "closing_ar",
+  "narrator",
+  "grade_en",
+  "grade_ar",
+  "source_reference",
+  "source_grade",
+  "reference",
+  "in_book_reference",
+  "chapter_number",
+  "has_variants",
+  "variant_of",
+  "url_source",
+] as const satisfies readonly (keyof ScrapedHadith)[];
+
+export type ComparedField = typeof COMPARED_FIELDS[number];
+
+export interface FieldChange {
+  hadith_number: string;
+  field: ComparedField;
+  /** Changed part of the previous value with some surrounding context */
+  previous: string;
+  /** Changed part of the current value with some surrounding context */
+  current: string;
+}
+
+export interface CollectionDiff {
+  collection: CollectionId;
+  /** Hadith count in the previous dataset (null if the collection was missing) */
+  previous: number | null;
+  /** Hadith count in the current dataset (null if the collection is missing) */
+  current: number | null;
+  /** Hadith numbers only in the current dataset */
+  added: string[];
+  /** Hadith numbers only in the previous dataset */
+  removed: string[];
+  /** Hadith numbers present in both with at least one changed field */
+  changed: string[];
+  /** Hadith numbers whose value changed, per field */
+  field_changes: Partial<Record<ComparedField, string[]>>;
+  /** A few changes per field, as excerpts */
+  samples: FieldChange[];
+}
+
+export interface DatasetDiff {
+  generated_at: string;
+  previous_dir: string;
+  current_dir: string;
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    /** Changed hadith count per field, over all collections */
+    fields: Partial<Record<ComparedField, number>>;
+  };
+  collections: CollectionDiff[];
+}
+
+async function loadHadiths(dir: string, id: CollectionId): Promise<ScrapedHadith[] | null> {
+  try {
+    const data = JSON.parse(await Deno.readTextFile(`${dir}/${id}.json`)) as ScrapedCollection;
+    return data.books ? data.books.flatMap((b) => b.hadiths) : data.hadiths ?? [];
+  } catch {
+    return null;
+  }
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? "(none)" : String(value);
+}
+
+/**
+ * Cut two strings down to the part that differs, keeping EXCERPT_CONTEXT
+ * characters of shared text on each side
+ */
+export function excerptChange(previous: string, current: string): { previous: string; current: string } {
+  let prefix = 0;
+  const maxPrefix = Math.min(previous.length, current.length);
+  while (prefix < maxPrefix && previous[prefix] === current[prefix]) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    previous[previous.length - 1 - suffix] === current[current.length - 1 - suffix]
+  ) suffix++;
+
+  const excerpt = (text: string) => {
+    const start = Math.max(0, prefix - EXCERPT_CONTEXT);
+    const end = Math.min(text.length, text.length - suffix + EXCERPT_CONTEXT);
+    return `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+  };
+
+  return { previous: excerpt(previous), current: excerpt(current) };
+}
+
+/**
+ * Added, removed and changed hadiths of one collection
+ */
+export function diffCollection(
+  id: CollectionId,
+  previous: ScrapedHadith[] | null,
+  current: ScrapedHadith[] | null,
+): CollectionDiff {
+  const previousByNumber = new Map((previous ?? []).map((h) => [h.hadith_number, h]));
+  const currentByNumber = new Map((current ?? []).map((h) => [h.hadith_number, h]));
+
+  const changed: string[] = [];
+  const fieldChanges: Partial<Record<ComparedField, string[]>> = {};
+  const samples: FieldChange[] = [];
+
+  for (const [number, after] of currentByNumber) {
+    const before = previousByNumber.get(number);
+    if (!before) continue;
+
+    let hadithChanged = false;
+    for (const field of COMPARED_FIELDS) {
+      if ((before[field] ?? null) === (after[field] ?? null)) continue;
+      hadithChanged = true;
+
+      const numbers = fieldChanges[field] ?? [];
+      numbers.push(number);
+      fieldChanges[field] = numbers;
+
+      if (numbers.length <= SAMPLES_PER_FIELD) {
+        samples.push({
+          hadith_number: number,
+          field,
+          ...excerptChange(formatValue(before[field]), formatValue(after[field])),
+        });
+      }
+    }
+    if (hadithChanged) changed.push(number);
+  }
+
+  return {
+    collection: id,
+    previous: previous?.length ?? null,
+    current: current?.length ?? null,
+    added: [...currentByNumber.keys()].filter((n) => !previousByNumber.has(n)),
+    removed: [...previousByNumber.keys()].filter((n) => !currentByNumber.has(n)),
+    changed,
+    field_changes: fieldChanges,
+    samples,
+  };
+}
+
+function listNumbers(numbers: string[]): string {
+  const shown = numbers.slice(0, MAX_MARKDOWN_NUMBERS).join(", ");
+  return numbers.length > MAX_MARKDOWN_NUMBERS ? `${shown}, … (${numbers.length} total)` : shown;
+}
+
+function renderMarkdown(diff: DatasetDiff): string {
+  const lines: string[] = [
+    "# Dataset diff",
+    "",
+    `\`${diff.previous_dir}\` → \`${diff.current_dir}\`, generated ${diff.generated_at}.`,
+    "",
+    `**${diff.summary.added}** added, **${diff.summary.removed}** removed, **${diff.summary.changed}** changed hadiths.`,
+    "",
+    "| Collection | Previous | Current | Added | Removed | Changed |",
+    "|---|---:|---:|---:|---:|---:|",
+  ];
+
+  for (const d of diff.collections) {
+    lines.push(
+      `| ${COLLECTIONS[d.collection].name_en} | ${d.previous ?? "—"} | ${d.current ?? "—"} | ` +
+        `${d.added.length} | ${d.removed.length} | ${d.changed.length} |`,
+    );
+  }
+
+  for (const d of diff.collections) {
+    if (d.added.length === 0 && d.removed.length === 0 && d.changed.length === 0) continue;
+
+    lines.push("", `## ${COLLECTIONS[d.collection].name_en} (\`${d.collection}\`)`, "");
+    if (d.added.length > 0) lines.push(`- Added: ${listNumbers(d.added)}`);
+    if (d.removed.length > 0) lines.push(`- Removed: ${listNumbers(d.removed)}`);
+
+    const fields = Object.entries(d.field_changes) as [ComparedField, string[]][];
+    if (fields.length > 0) {
+      lines.push("", "| Field | Hadiths | Numbers |", "|---|---:|---|");
+      for (const [field, numbers] of fields) {
+        lines.push(`| \`${field}\` | ${numbers.length} | ${listNumbers(numbers)} |`);
+      }
+    }
+
+    for (const sample of d.samples) {
+      lines.push(
+        "",
+        `**${sample.hadith_number}** · \`${sample.field}\``,
+        "",
+        "```diff",
+        `- ${sample.previous.replaceAll("\n", " ")}`,
+        `+ ${sample.current.replaceAll("\n", " ")}`,
+        "```",
+      );
+    }
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Per-collection added/removed/changed hadiths and per-field changes,
+ * printed as a table and written to <report-dir>/diff.json and diff.md
+ */
+export async function diffDatasets(
+  previousDir: string,
+  currentDir = "data/collections",
+  options: { reportDir?: string } = {},
+): Promise<DatasetDiff> {
+  const reportDir = options.reportDir ?? DEFAULT_REPORT_DIR;
+  const collections: CollectionDiff[] = [];
+
+  for (const id of Object.keys(COLLECTIONS) as CollectionId[]) {
+    const previous = await loadHadiths(previousDir, id);
+    const current = await loadHadiths(currentDir, id);
+    if (!previous && !current) continue;
+    collections.push(diffCollection(id, previous, current));
+  }
+
+  const fields: Partial<Record<ComparedField, number>> = {};
+  for (const d of collections) {
+    for (const [field, numbers] of Object.entries(d.field_changes) as [ComparedField, string[]][]) {
+      fields[field] = (fields[field] ?? 0) + numbers.length;
+    }
+  }
+
+  const diff: DatasetDiff = {
+    generated_at: new Date().toISOString(),
+    previous_dir: previousDir,
+    current_dir: currentDir,
+    summary: {
+      added: collections.reduce((sum, d) => sum + d.added.length, 0),
+      removed: collections.reduce((sum, d) => sum + d.removed.length, 0),
+      changed: collections.reduce((sum, d) => sum + d.changed.length, 0),
+      fields,
+    },
+    collections,
+  };
+
+  await ensureDir(reportDir);
+  await Deno.writeTextFile(`${reportDir}/diff.json`, JSON.stringify(diff, null, 2));
+  await Deno.writeTextFile(`${reportDir}/diff.md`, renderMarkdown(diff));
+
+  console.log(`\nDataset diff: ${previousDir} -> ${currentDir}\n`);
+  for (const d of collections) {
+    const counts = `${d.previous ?? "-"} -> ${d.current ?? "-"}`;
+    console.log(
+      `  ${d.collection.padEnd(20)} ${counts.padStart(16)}   +${d.added.length} -${d.removed.length} ~${d.changed.length}`,
+    );
+  }
+
+  const fieldSummary = Object.entries(fields).map(([field, count]) => `${field} ${count}`).join(", ");
+  if (fieldSummary) console.log(`\n  Changed fields: ${fieldSummary}`);
+  console.log(`\n  Report: ${reportDir}/diff.json, ${reportDir}/diff.md`);
+
+  return diff;
+}
@@ -0,0 +1,258 @@
+/**
+ * Hadith grade taxonomy and the unmapped-grades report
+ *
+ * Grade strings ("Hasan li ghairihi (Al-Albani)", "Isnaduhu Da'if",
+ * "صحيح موقوف") are classified into a controlled vocabulary: one term, its
+ * category (sahih, hasan, daif, maudu) and strength ordinal, plus modifiers.
+ * Strength runs from 0 (maudu) to 6 (sahih); li-ghairihi lowers it by one.
+ *
+ * Usage: ohd grades   (writes dist/grades/report.json and report.md)
+ */
+
+import { ensureDir } from "@std/fs";
+import type { CollectionId, GradeCategory, GradeModifier, ScrapedHadith } from "./types.ts";
+import { normalizeArabic } from "./arabic.ts";
+import { loadCollectionHadiths } from "./state.ts";
+
+const DATA_DIR = "./data";
+const REPORT_DIR = "dist/grades";
+
+interface GradeTerm {
+  term: string;
+  category: GradeCategory;
+  strength: number;
+  /** Synonyms after normalizeEnglishGrade */
+  en: readonly string[];
+  /** Synonyms as written; compared after normalizeArabic */
+  ar: readonly string[];
+}
+
+/** Controlled vocabulary; `term` is what `normalized` and `source_grade` hold */
+export const GRADE_TERMS = [
+  { term: "sahih", category: "sahih", strength: 6, en: ["sahih", "saheeh", "authentic"], ar: ["صحيح"] },
+  { term: "hasan sahih", category: "sahih", strength: 5, en: ["hasan sahih", "sahih hasan"], ar: ["حسن صحيح", "صحيح حسن"] },
+  { term: "hasan", category: "hasan", strength: 4, en: ["hasan"], ar: ["حسن"] },
+  { term: "daif", category: "daif", strength: 2, en: ["daif", "daeef", "dhaif", "weak"], ar: ["ضعيف"] },
+  { term: "shadh", category: "daif", strength: 2, en: ["shadh", "shaadh", "shath"], ar: ["شاذ"] },
+  { term: "munkar", category: "daif", strength: 1, en: ["munkar"], ar: ["منكر"] },
+  { term: "matruk", category: "daif", strength: 1, en: ["matruk", "matrook"], ar: ["متروك"] },
+  { term: "daif jiddan", category: "daif", strength: 1, en: ["daif jiddan", "daif jidan", "very weak"], ar: ["ضعيف جدا"] },
+  { term: "maudu", category: "maudu", strength: 0, en: ["maudu", "mawdu", "mawdoo", "fabricated"], ar: ["موضوع"] },
+  { term: "batil", category: "maudu", strength: 0, en: ["batil", "baatil"], ar: ["باطل"] },
+] as const satisfies readonly GradeTerm[];
+
+export type GradeTermName = typeof GRADE_TERMS[number]["term"];
+
+const GRADE_MODIFIERS: { modifier: GradeModifier; en: RegExp; ar: RegExp }[] = [
+  { modifier: "li_ghairihi", en: /\bli ?gh?a[iy]r(?:i|ee)?hi\b/g, ar: /لغيره/g },
+  { modifier: "mawquf", en: /\bmawq[uo]o?f\b/g, ar: /موقوف/g },
+  { modifier: "isnad", en: /\b(?:isnad|sanad)(?:uhu)?\b|\bchain\b/g, ar: /(?:ال)?اسناد(?:ه)?|(?:ال)?سند(?:ه)?/g },
+];
+
+/** Synonyms longest first, so "hasan sahih" wins over "sahih" */
+const SYNONYMS = GRADE_TERMS
+  .flatMap((t) => [
+    ...t.en.map((s) => ({ text: s, arabic: false, term: t as GradeTerm })),
+    ...t.ar.map((s) => ({ text: normalizeArabic(s), arabic: true, term: t as GradeTerm })),
+  ])
+  .sort((a, b) => b.text.length - a.text.length);
+
+export interface GradeClass {
+  term: GradeTermName;
+  category: GradeCategory;
+  strength: number;
+  modifiers: GradeModifier[];
+}
+
+/**
+ * Category of a taxonomy term ("hasan sahih" → "sahih"), null for other strings
+ */
+export function gradeTermCategory(term: string): GradeCategory | null {
+  return GRADE_TERMS.find((t) => t.term === term)?.category ?? null;
+}
+
+/**
+ * Lower-case, strip accents and apostrophes, hyphens to spaces ("Da'if" → "daif")
+ */
+export function normalizeEnglishGrade(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’‘`ʿʾ]/g, "")
+    .replace(/[-_,.:;]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function classifyText(text: string, arabic: boolean): { term: GradeTerm; modifiers: GradeModifier[] } | null {
+  let rest = arabic ? normalizeArabic(text) : normalizeEnglishGrade(text);
+  const modifiers: GradeModifier[] = [];
+  for (const { modifier, en, ar } of GRADE_MODIFIERS) {
+    const pattern = arabic ? ar : en;
+    if (rest.match(pattern)) {
+      modifiers.push(modifier);
+      rest = rest.replace(pattern, " ");
+    }
+  }
+
+  const padded = ` ${rest.replace(/\s+/g, " ").trim()} `;
+  const match = SYNONYMS.find((s) => s.arabic === arabic && padded.includes(` ${s.text} `));
+  return match ? { term: match.term, modifiers } : null;
+}
+
+/**
+ * Classify a grade from its English and/or Arabic text; the grader in
+ * parentheses is ignored. The English term wins when both map; modifiers
+ * come from either, since they are often spelled out in only one.
+ */
+export function classifyGrade(gradeEn: string | null, gradeAr: string | null = null): GradeClass | null {
+  const strip = (text: string | null) => text?.replace(/\([^()]*\)/g, " ").trim() || null;
+  const en = strip(gradeEn);
+  const ar = strip(gradeAr);
+  const fromEn = en ? classifyText(en, false) : null;
+  const fromAr = ar ? classifyText(ar, true) : null;
+
+  const term = (fromEn ?? fromAr)?.term;
+  if (!term) return null;
+
+  const modifiers = GRADE_MODIFIERS
+    .map((m) => m.modifier)
+    .filter((m) => fromEn?.modifiers.includes(m) || fromAr?.modifiers.includes(m));
+  return {
+    term: term.term as GradeTermName,
+    category: term.category,
+    strength: modifiers.includes("li_ghairihi") ? term.strength - 1 : term.strength,
+    modifiers,
+  };
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+export interface UnmappedGrade {
+  grade_en: string | null;
+  grade_ar: string | null;
+  count: number;
+  collections: CollectionId[];
+  /** First hadith carrying it ("Sunan Abi Dawud 12") */
+  example: string;
+}
+
+export interface CollectionGrades {
+  collection: CollectionId;
+  hadiths: number;
+  /** Grade entries (one per grader) */
+  grades: number;
+  categories: Record<GradeCategory, number>;
+  unmapped: number;
+}
+
+export interface GradeReport {
+  generated_at: string;
+  collections: CollectionGrades[];
+  /** Grade strings no term matched, most frequent first */
+  unmapped: UnmappedGrade[];
+}
+
+/** Grade entries of a hadith; JSON scraped before `grades` existed only has the first */
+function hadithGrades(h: ScrapedHadith): { grade_en: string | null; grade_ar: string | null }[] {
+  if (h.grades) return h.grades;
+  return h.grade_en || h.grade_ar ? [{ grade_en: h.grade_en, grade_ar: h.grade_ar }] : [];
+}
+
+/**
+ * Classify every grade in data/collections/ with the current taxonomy
+ */
+export async function gradeReport(dir = `${DATA_DIR}/collections`): Promise<GradeReport> {
+  const collections: CollectionGrades[] = [];
+  const unmapped = new Map<string, UnmappedGrade>();
+
+  for (const { collection: id, hadiths } of await loadCollectionHadiths(dir)) {
+    const stats: CollectionGrades = {
+      collection: id,
+      hadiths: hadiths.length,
+      grades: 0,
+      categories: { sahih: 0, hasan: 0, daif: 0, maudu: 0 },
+      unmapped: 0,
+    };
+
+    for (const h of hadiths) {
+      for (const g of hadithGrades(h)) {
+        stats.grades++;
+        const graded = classifyGrade(g.grade_en, g.grade_ar);
+        if (graded) {
+          stats.categories[graded.category]++;
+          continue;
+        }
+
+        stats.unmapped++;
+        const key = `${g.grade_en ?? ""}\u0000${g.grade_ar ?? ""}`;
+        const entry = unmapped.get(key) ??
+          { grade_en: g.grade_en, grade_ar: g.grade_ar, count: 0, collections: [], example: h.reference };
+        entry.count++;
+        if (!entry.collections.includes(id)) entry.collections.push(id);
+        unmapped.set(key, entry);
+      }
+    }
+
+    collections.push(stats);
+  }
+
+  return {
+    generated_at: new Date().toISOString(),
+    collections,
+    unmapped: [...unmapped.values()].sort((a, b) => b.count - a.count),
+  };
+}
+
+function renderMarkdown(report: GradeReport): string {
+  const cell = (value: string | number | null) => String(value ?? "").replaceAll("|", "\\|");
+  const lines = [
+    "# Grades",
+    "",
+    `Generated ${report.generated_at}`,
+    "",
+    "| Collection | Hadiths | Grades | Sahih | Hasan | Da'if | Maudu | Unmapped |",
+    "|---|---|---|---|---|---|---|---|",
+  ];
+  for (const c of report.collections) {
+    const { sahih, hasan, daif, maudu } = c.categories;
+    lines.push(`| ${[c.collection, c.hadiths, c.grades, sahih, hasan, daif, maudu, c.unmapped].join(" | ")} |`);
+  }
+
+  lines.push("", `## Unmapped grade strings (${report.unmapped.length})`, "");
+  if (report.unmapped.length === 0) {
+    lines.push("Every grade maps to a term.");
+  } else {
+    lines.push("| Count | English | Arabic | Collections | Example |", "|---|---|---|---|---|");
+    for (const u of report.unmapped) {
+      lines.push(
+        `| ${[u.count, cell(u.grade_en), cell(u.grade_ar), u.collections.join(", "), cell(u.example)].join(" | ")} |`,
+      );
+    }
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Write dist/grades/report.json and report.md
+ */
+export async function writeGradeReport(
+  { reportDir = REPORT_DIR }: { reportDir?: string } = {},
+): Promise<GradeReport & { report: string }> {
+  const report = await gradeReport();
+
+  await ensureDir(reportDir);
+  await Deno.writeTextFile(`${reportDir}/report.json`, JSON.stringify(report, null, 2));
+  await Deno.writeTextFile(`${reportDir}/report.md`, renderMarkdown(report));
+
+  const total = report.collections.reduce((sum, c) => sum + c.grades, 0);
+  const unmapped = report.collections.reduce((sum, c) => sum + c.unmapped, 0);
+  console.log(`\nGrades: ${total - unmapped}/${total} mapped`);
+  console.log(`  Unmapped strings: ${report.unmapped.length} (${reportDir}/report.md)`);
+
+  return { ...report, report: `${reportDir}/report.json` };
+}
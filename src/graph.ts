@@ -0,0 +1,244 @@
+/**
+ * Narrator transmission graph and common-link (madar) detection
+ *
+ * Every pair of consecutive names in an isnad chain (src/isnad.ts) is one
+ * transmission: the later name (nearer the Prophet ﷺ) narrated to the earlier
+ * one. Edges run teacher → student and are weighted by the number of hadiths
+ * carrying them, per collection. A chain cut short by ح continues with the
+ * next chain from where they join, so each route runs up to the source.
+ *
+ * Nodes are registry narrators (data/narrators.json) when the name resolves,
+ * otherwise the Arabic name key. Relatives ("أَبِيهِ") are a different person in
+ * every isnad, so they are qualified by their student.
+ *
+ * A common link is where the chains of one hadith converge: the narrator most
+ * of the cluster's chains pass through who passed it on to two or more
+ * students. Clusters are variant groups (Muslim 8a, 8b) joined with hadiths
+ * of identical matn in other collections.
+ */
+
+import type { CollectionId, ScrapedHadith } from "./types.ts";
+import { normalizeArabic } from "./arabic.ts";
+import { type IsnadLink, parseIsnad } from "./isnad.ts";
+import {
+  arabicNarratorKey,
+  isArabicName,
+  type NarratorIndex,
+  type NarratorRegistry,
+  narratorSlug,
+  resolveArabicName,
+} from "./narrators.ts";
+import { groupByKeys, matnKey } from "./similarity.ts";
+
+export interface GraphNode {
+  /** Registry id, or the hyphenated Arabic name key */
+  id: string;
+  name_ar: string;
+  name_en: string | null;
+  /** True when the registry knows the narrator */
+  registered: boolean;
+  /** Hadiths whose isnad names the narrator */
+  hadiths: number;
+}
+
+export interface GraphEdge {
+  /** Teacher */
+  source: string;
+  /** Student */
+  target: string;
+  /** Hadiths carrying the transmission */
+  hadiths: number;
+  collections: Partial<Record<CollectionId, number>>;
+}
+
+export interface TransmissionGraph {
+  nodes: Map<string, GraphNode>;
+  /** Keyed by `${source}\u0000${target}` */
+  edges: Map<string, GraphEdge>;
+}
+
+/** One hadith's isnad, for the graph */
+export interface GraphHadith {
+  collection: CollectionId;
+  hadith: Pick<ScrapedHadith, "hadith_number" | "reference" | "isnad_ar" | "matn_ar" | "variant_of">;
+}
+
+/** A route of one hadith: node ids from the compiler's teacher up */
+export interface Route {
+  collection: CollectionId;
+  nodes: string[];
+}
+
+export interface CommonLinkCandidate {
+  node: string;
+  name_ar: string;
+  /** Routes of the cluster passing through the node */
+  routes: number;
+  /** Distinct narrators (or compilers) the node passed the hadith to */
+  students: number;
+}
+
+export interface ClusterCommonLinks {
+  /** References of the cluster's hadiths */
+  hadiths: string[];
+  routes: number;
+  /** Most routes first; empty when no narrator fans out */
+  candidates: CommonLinkCandidate[];
+}
+
+/**
+ * Node of every name in an isnad, in link order
+ */
+function linkNodes(
+  links: IsnadLink[],
+  index: NarratorIndex | null,
+  registry: Map<string, { name_en: string | null; name_ar: string | null }>,
+): Omit<GraphNode, "hadiths">[] {
+  const nodes: Omit<GraphNode, "hadiths">[] = [];
+  for (const [i, link] of links.entries()) {
+    const slug = index ? resolveArabicName(index, link.name_ar) : null;
+    if (slug) {
+      const known = registry.get(slug);
+      nodes.push({ id: slug, name_ar: known?.name_ar ?? link.name_ar, name_en: known?.name_en ?? null, registered: true });
+      continue;
+    }
+
+    const student = links[i - 1]?.chain === link.chain ? nodes[i - 1] : undefined;
+    if (!isArabicName(link.name_ar) && student) {
+      nodes.push({
+        id: `${narratorSlug(normalizeArabic(link.name_ar))}@${student.id}`,
+        name_ar: `${link.name_ar} (${student.name_ar})`,
+        name_en: null,
+        registered: false,
+      });
+    } else {
+      nodes.push({ id: narratorSlug(arabicNarratorKey(link.name_ar)), name_ar: link.name_ar, name_en: null, registered: false });
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Build the transmission graph and the routes of every hadith
+ */
+export function buildTransmissionGraph(
+  hadiths: GraphHadith[],
+  registry: NarratorRegistry | null,
+  index: NarratorIndex | null,
+): TransmissionGraph & { routes: Route[][] } {
+  const graph: TransmissionGraph = { nodes: new Map(), edges: new Map() };
+  const known = new Map((registry?.narrators ?? []).map((n) => [n.id, n]));
+  const routes: Route[][] = [];
+
+  for (const { collection, hadith } of hadiths) {
+    const links = parseIsnad(hadith.isnad_ar);
+    const nodes = linkNodes(links, index, known);
+    const seenNodes = new Set<string>();
+    const seenEdges = new Set<string>();
+    // Names of each ح chain, and where the earlier chains join it (-1: not marked)
+    const chains: { nodes: string[]; joined_at: number }[] = [];
+
+    for (const [i, node] of nodes.entries()) {
+      if (!seenNodes.has(node.id)) {
+        seenNodes.add(node.id);
+        const entry = graph.nodes.get(node.id) ?? { ...node, hadiths: 0 };
+        entry.hadiths++;
+        graph.nodes.set(node.id, entry);
+      }
+
+      if (i === 0 || links[i - 1].chain !== links[i].chain) chains.push({ nodes: [], joined_at: -1 });
+      const chain = chains.at(-1)!;
+      if (links[i].joins_chains && chain.joined_at === -1) chain.joined_at = chain.nodes.length;
+      chain.nodes.push(node.id);
+    }
+
+    // Last chain first, so a chain continues with the next one's continuation too
+    for (let c = chains.length - 2; c >= 0; c--) {
+      const route = chains[c].nodes;
+      const next = chains[c + 1];
+      const shared = next.nodes.indexOf(route.at(-1)!);
+      if (shared !== -1) route.push(...next.nodes.slice(shared + 1));
+      else if (next.joined_at !== -1) route.push(...next.nodes.slice(next.joined_at));
+    }
+
+    // The previous name of a route is the student
+    for (const { nodes: route } of chains) {
+      for (let i = 1; i < route.length; i++) {
+        const key = `${route[i]}\u0000${route[i - 1]}`;
+        if (seenEdges.has(key)) continue;
+        seenEdges.add(key);
+
+        const edge = graph.edges.get(key) ?? { source: route[i], target: route[i - 1], hadiths: 0, collections: {} };
+        edge.hadiths++;
+        edge.collections[collection] = (edge.collections[collection] ?? 0) + 1;
+        graph.edges.set(key, edge);
+      }
+    }
+
+    routes.push(chains.map((chain) => ({ collection, nodes: chain.nodes })));
+  }
+
+  return { ...graph, routes };
+}
+
+/**
+ * Group hadiths into clusters: variants of one hadith, plus hadiths whose
+ * normalized matn is identical up to punctuation. Returns the hadith indices
+ * of each cluster.
+ */
+export function clusterHadiths(hadiths: GraphHadith[]): number[][] {
+  return groupByKeys(hadiths, ({ collection, hadith }) => [
+    `variant:${collection}:${hadith.variant_of ?? hadith.hadith_number}`,
+    matnKey(hadith.matn_ar),
+  ]);
+}
+
+/**
+ * Common-link candidates of one cluster's routes: narrators on two or more
+ * routes who passed the hadith to two or more students. The compiler counts
+ * as the student of the first name.
+ */
+export function findCommonLinks(routes: Route[], nodes: Map<string, GraphNode>): CommonLinkCandidate[] {
+  const through = new Map<string, { routes: number; students: Set<string>; depth: number }>();
+
+  for (const route of routes) {
+    for (const [i, id] of route.nodes.entries()) {
+      const entry = through.get(id) ?? { routes: 0, students: new Set(), depth: 0 };
+      entry.routes++;
+      entry.students.add(i === 0 ? `compiler:${route.collection}` : route.nodes[i - 1]);
+      entry.depth = Math.max(entry.depth, i);
+      through.set(id, entry);
+    }
+  }
+
+  return [...through.entries()]
+    .filter(([, t]) => t.routes >= 2 && t.students.size >= 2)
+    // Most routes first; on a tie the narrator nearer the source, where the chains converge
+    .sort(([, a], [, b]) => b.routes - a.routes || b.depth - a.depth)
+    .map(([id, t]) => ({
+      node: id,
+      name_ar: nodes.get(id)?.name_ar ?? id,
+      routes: t.routes,
+      students: t.students.size,
+    }));
+}
+
+/**
+ * Common-link candidates of every cluster with two or more routes
+ */
+export function commonLinks(
+  hadiths: GraphHadith[],
+  graph: TransmissionGraph & { routes: Route[][] },
+): ClusterCommonLinks[] {
+  const result: ClusterCommonLinks[] = [];
+  for (const cluster of clusterHadiths(hadiths)) {
+    const routes = cluster.flatMap((i) => graph.routes[i]).filter((r) => r.nodes.length > 0);
+    if (routes.length < 2) continue;
+    result.push({
+      hadiths: cluster.map((i) => hadiths[i].hadith.reference),
+      routes: routes.length,
+      candidates: findCommonLinks(routes, graph.nodes),
+    });
+  }
+  return result;
+}
@@ -22,17 +22,14 @@
 
 import { DOMParser, type Element } from "deno-dom";
 import type { ScrapedDua, ScrapedHisnChapter } from "./types.ts";
+import { normalizeArabic } from "../arabic.ts";
 
 // ============================================================================
 // Text Cleaning
 // ============================================================================
 
 function cleanArabicText(text: string): string {
-  return text
-    .replace(/[\u200F\u200E\u200B\u200C\u200D\uFEFF]/g, "")
-    .replace(/\u00A0/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
+  return normalizeArabic(text, "display");
 }
 
 function cleanText(text: string): string {
@@ -6,9 +6,10 @@
 import { ensureDir } from "@std/fs";
 import { HISN_CONFIG, type HisnCollection } from "./types.ts";
 import { parseHisnPage } from "./parser.ts";
+import { linkDuaSources, loadHadithIndex } from "./sources.ts";
+import { fetchHtml } from "../http.ts";
+import { pageSource } from "../snapshot.ts";
 
-const MAX_RETRIES = 3;
-const RETRY_DELAY_MS = 5000;
 const DATA_DIR = "./data";
 
 // ============================================================================
@@ -27,63 +28,31 @@ const log = {
 };
 
 // ============================================================================
-// Fetch with retry
+// Main scrape function
 // ============================================================================
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-async function fetchWithRetry(url: string): Promise<string> {
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      log.info(`Fetching ${url} (attempt ${attempt}/${MAX_RETRIES})`);
-
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": "HadathaniScraper/1.0 (Educational hadith app)",
-          "Accept": "text/html,application/xhtml+xml",
-          "Accept-Language": "en-US,en;q=0.9,ar;q=0.8",
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      return await response.text();
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      log.warn(`Attempt ${attempt} failed: ${message}`);
-
-      if (attempt === MAX_RETRIES) {
-        throw new Error(`Failed to fetch ${url} after ${MAX_RETRIES} attempts: ${message}`);
-      }
-
-      await sleep(RETRY_DELAY_MS * attempt);
-    }
-  }
-
-  throw new Error("Unreachable");
+export interface ScrapeHisnOptions {
+  /** Re-parse the stored HTML snapshot instead of fetching */
+  fromCache?: boolean;
 }
 
-// ============================================================================
-// Main scrape function
-// ============================================================================
-
-export async function scrapeHisn(): Promise<HisnCollection> {
-  log.info(`Starting scrape of ${HISN_CONFIG.name_en}`);
+export async function scrapeHisn(options: ScrapeHisnOptions = {}): Promise<HisnCollection> {
+  log.info(`Starting ${options.fromCache ? "offline re-parse" : "scrape"} of ${HISN_CONFIG.name_en}`);
 
   // Ensure output directory
   await ensureDir(`${DATA_DIR}/collections`);
 
-  // Fetch the single page
-  const html = await fetchWithRetry(HISN_CONFIG.url);
+  // Fetch the single page (or load its snapshot)
+  const html = await fetchHtml(HISN_CONFIG.url, { fromCache: options.fromCache });
 
   // Parse
   log.info("Parsing HTML...");
   const { chapters, duas } = parseHisnPage(html);
 
+  // Link source references to the hadith collections scraped so far
+  const unresolved = linkDuaSources(duas, await loadHadithIndex());
+  log.info(`Sources: ${unresolved.length} citations unresolved (ohd link hisn writes the report)`);
+
   // Build collection
   const collection: HisnCollection = {
     collection: {
@@ -100,6 +69,7 @@ export async function scrapeHisn(): Promise<HisnCollection> {
       total_chapters: chapters.length,
       total_duas: duas.length,
     },
+    source_page: await pageSource(HISN_CONFIG.url, html),
   };
 
   // Save
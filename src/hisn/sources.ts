@@ -0,0 +1,273 @@
+/**
+ * Hisn al-Muslim source references linked to hadith records (`ohd link hisn`)
+ *
+ * `hisn_reference` is free text ("Abu Dawud 2/86, An-Nasa'i 3/53"); each cited
+ * work becomes a DuaSource. A citation of one of our collections resolves to a
+ * hadith when it gives a hadith number that exists in the collection, or when
+ * the dua's Arabic text appears in a hadith of that collection. Volume/page
+ * locators refer to printed editions and do not resolve by themselves.
+ *
+ * Unresolved citations are written to dist/hisn/unresolved.json and .md for
+ * manual mapping.
+ */
+
+import { ensureDir } from "@std/fs";
+import type { CollectionId } from "../types.ts";
+import { normalizeArabic } from "../arabic.ts";
+import { loadCollectionHadiths } from "../state.ts";
+import type { DuaSource, HisnCollection, ScrapedDua } from "./types.ts";
+
+const DATA_DIR = "./data";
+const REPORT_DIR = "dist/hisn";
+
+/** Shortest normalized dua text looked up in hadith texts */
+const MIN_TEXT_MATCH = 20;
+/** A text found in more hadiths than this is too common to resolve */
+const MAX_TEXT_MATCHES = 5;
+
+const CONFIDENCE_NUMBER = 0.9;
+const CONFIDENCE_TEXT_UNIQUE = 0.8;
+const CONFIDENCE_TEXT_AMBIGUOUS = 0.5;
+
+/** Spellings of our collections in Hisn references (lower-cased) */
+const COLLECTION_ALIASES: [RegExp, CollectionId][] = [
+  [/^(al-)?bukh[aā]ri$/, "bukhari"],
+  [/^(sahih )?muslim$/, "muslim"],
+  [/^ab[uū] d[aā]w[uū]d$/, "abudawud"],
+  [/^(at-)?tirmi(th|dh|z)i$/, "tirmidhi"],
+  [/^(an-)?nas[aā]'?i$/, "nasai"],
+  [/^ibn m[aā]jah$/, "ibnmajah"],
+  [/^(imam )?m[aā]lik$|^(al-)?muwatt?a'?( m[aā]lik)?$/, "malik"],
+  [/^(imam )?ahmad$|^musnad( ahmad)?$/, "ahmad"],
+  [/^(ad-)?d[aā]rimi$/, "darimi"],
+  [/^(al-)?adab al-mufrad$/, "adab"],
+];
+
+/** Words that introduce a citation ("See Irwa'ul-Ghalil 7/47") */
+const LEAD_IN = /^(see also|see|cf|reported by|and|also)\s+/i;
+
+/** Trailing hadith number ("no. 34", "6306") or volume/page ("4/2083") */
+const LOCATOR = /\s*(?:no\s*)?(\d+(?:\/\d+)?[a-z]?)$/i;
+
+export interface UnresolvedSource {
+  dua_number: string;
+  hisn_reference: string;
+  work: string;
+  collection: CollectionId | null;
+  locator: string | null;
+  reason: string;
+}
+
+export interface LinkSummary {
+  duas: number;
+  /** Citations of collections in this dataset */
+  citations: number;
+  resolved: number;
+  unresolved: UnresolvedSource[];
+}
+
+interface CollectionIndex {
+  numbers: Set<string>;
+  /** Normalized text_ar of every hadith, in collection order */
+  texts: { hadith_number: string; text: string }[];
+}
+
+export type HadithIndex = Map<CollectionId, CollectionIndex>;
+
+function matchCollection(work: string): CollectionId | null {
+  const key = work.toLowerCase().replace(/[’‘`ʼ]/g, "'").replace(/\s+/g, " ").trim();
+  for (const [pattern, id] of COLLECTION_ALIASES) {
+    if (pattern.test(key)) return id;
+  }
+  return null;
+}
+
+/**
+ * Split a hisn_reference into cited works with their locators (unresolved)
+ */
+export function parseHisnReference(text: string): DuaSource[] {
+  const citations: DuaSource[] = [];
+  const cleaned = text
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/\b(cf|no|vol)\./gi, "$1");
+
+  for (const part of cleaned.split(/[;,]|\.(?=\s|$)/)) {
+    let segment = part.trim();
+    while (LEAD_IN.test(segment)) segment = segment.replace(LEAD_IN, "");
+    if (!segment) continue;
+
+    const match = segment.match(LOCATOR);
+    const locator = match ? match[1] : null;
+    let work = match ? segment.slice(0, match.index).trim() : segment;
+
+    if (!work) {
+      // "Abu Dawud 2/86, 3/40": a bare locator continues the previous work
+      const previous = citations.at(-1);
+      if (!previous || !locator) continue;
+      work = previous.work;
+    }
+
+    const collection = matchCollection(work);
+    // Other works only count with a locator; bare names are authors or remarks ("among others")
+    if (!collection && !locator) continue;
+
+    citations.push({
+      work,
+      collection,
+      locator,
+      locator_type: locator === null ? null : locator.includes("/") ? "volume_page" : "number",
+      hadith: null,
+      confidence: 0,
+    });
+  }
+
+  return citations;
+}
+
+/**
+ * Hadith numbers and normalized Arabic texts of every scraped collection
+ */
+export async function loadHadithIndex(dir = `${DATA_DIR}/collections`): Promise<HadithIndex> {
+  const index: HadithIndex = new Map();
+
+  for (const { collection: id, hadiths } of await loadCollectionHadiths(dir)) {
+    index.set(id, {
+      numbers: new Set(hadiths.map((h) => h.hadith_number)),
+      texts: hadiths.map((h) => ({ hadith_number: h.hadith_number, text: normalizeArabic(h.text_ar || "") })),
+    });
+  }
+
+  return index;
+}
+
+function resolveCitation(
+  citation: DuaSource,
+  duaText: string,
+  index: HadithIndex,
+): { source: DuaSource; reason: string | null } {
+  // Other works (Fathul-Bari, Irwa'ul-Ghalil) are kept as cited; there is nothing to link them to
+  if (!citation.collection) return { source: citation, reason: null };
+
+  const collection = index.get(citation.collection);
+  if (!collection) return { source: citation, reason: "collection not scraped" };
+
+  if (citation.locator_type === "number" && collection.numbers.has(citation.locator!)) {
+    return {
+      source: { ...citation, hadith: `${citation.collection}:${citation.locator}`, confidence: CONFIDENCE_NUMBER },
+      reason: null,
+    };
+  }
+
+  if (duaText.length >= MIN_TEXT_MATCH) {
+    const matches = collection.texts.filter((h) => h.text.includes(duaText));
+    if (matches.length > 0 && matches.length <= MAX_TEXT_MATCHES) {
+      return {
+        source: {
+          ...citation,
+          hadith: `${citation.collection}:${matches[0].hadith_number}`,
+          confidence: matches.length === 1 ? CONFIDENCE_TEXT_UNIQUE : CONFIDENCE_TEXT_AMBIGUOUS,
+        },
+        reason: null,
+      };
+    }
+    if (matches.length > MAX_TEXT_MATCHES) {
+      return { source: citation, reason: `text found in ${matches.length} hadiths` };
+    }
+  }
+
+  const reason = citation.locator_type === "number"
+    ? "hadith number not found, no text match"
+    : citation.locator_type === "volume_page"
+    ? "volume/page locator, no text match"
+    : "no locator, no text match";
+  return { source: citation, reason };
+}
+
+/**
+ * Set `sources` on every dua and return the citations of our collections that
+ * did not resolve
+ */
+export function linkDuaSources(duas: ScrapedDua[], index: HadithIndex): UnresolvedSource[] {
+  const unresolved: UnresolvedSource[] = [];
+
+  for (const dua of duas) {
+    const duaText = normalizeArabic(dua.text_ar);
+    dua.sources = parseHisnReference(dua.hisn_reference ?? "").map((citation) => {
+      const { source, reason } = resolveCitation(citation, duaText, index);
+      if (reason) {
+        unresolved.push({
+          dua_number: dua.dua_number,
+          hisn_reference: dua.hisn_reference ?? "",
+          work: source.work,
+          collection: source.collection,
+          locator: source.locator,
+          reason,
+        });
+      }
+      return source;
+    });
+  }
+
+  return unresolved;
+}
+
+function renderMarkdown(summary: LinkSummary): string {
+  const lines = [
+    "# Unresolved Hisn al-Muslim sources",
+    "",
+    `${summary.resolved} of ${summary.citations} citations of our collections in ${summary.duas} duas ` +
+    `resolved to a hadith; ` +
+    `${summary.unresolved.length} need manual mapping.`,
+    "",
+    "| Dua | Work | Locator | Reason | Reference |",
+    "|---|---|---|---|---|",
+  ];
+  for (const u of summary.unresolved) {
+    const cells = [u.dua_number, u.work, u.locator ?? "", u.reason, u.hisn_reference];
+    lines.push(`| ${cells.map((c) => c.replaceAll("|", "\\|")).join(" | ")} |`);
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Re-link data/collections/hisn.json against the scraped collections and
+ * write the unresolved report
+ */
+export async function linkHisn(): Promise<LinkSummary & { report: string }> {
+  const filepath = `${DATA_DIR}/collections/hisn.json`;
+  let hisn: HisnCollection;
+  try {
+    hisn = JSON.parse(await Deno.readTextFile(filepath));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new Error(`${filepath} not found (run ohd scrape hisn first)`);
+    }
+    throw error;
+  }
+
+  const index = await loadHadithIndex();
+  const unresolved = linkDuaSources(hisn.duas, index);
+  await Deno.writeTextFile(filepath, JSON.stringify(hisn, null, 2));
+
+  const citations = hisn.duas.reduce(
+    (sum, d) => sum + (d.sources ?? []).filter((s) => s.collection !== null).length,
+    0,
+  );
+  const summary: LinkSummary = {
+    duas: hisn.duas.length,
+    citations,
+    resolved: citations - unresolved.length,
+    unresolved,
+  };
+
+  await ensureDir(REPORT_DIR);
+  await Deno.writeTextFile(`${REPORT_DIR}/unresolved.json`, JSON.stringify(unresolved, null, 2));
+  await Deno.writeTextFile(`${REPORT_DIR}/unresolved.md`, renderMarkdown(summary));
+
+  console.log(`\nHisn al-Muslim sources: ${summary.resolved}/${citations} citations resolved`);
+  console.log(`  Collections indexed: ${[...index.keys()].join(", ") || "(none)"}`);
+  console.log(`  Unresolved:          ${unresolved.length} (${REPORT_DIR}/unresolved.md)`);
+
+  return { ...summary, report: `${REPORT_DIR}/unresolved.json` };
+}
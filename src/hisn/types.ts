@@ -3,6 +3,8 @@
  * Independent from the main hadith scraper types.
  */
 
+import type { CollectionId, PageSource } from "../types.ts";
+
 // ============================================================================
 // Scraped Data Types
 // ============================================================================
@@ -28,6 +30,23 @@ export interface ScrapedDua {
   hisn_reference: string | null;
   /** URL to the dua on sunnah.com */
   url_source: string;
+  /** Citations parsed from hisn_reference, linked to hadith records (set by linkDuaSources) */
+  sources?: DuaSource[];
+}
+
+/** One work cited in a dua's hisn_reference */
+export interface DuaSource {
+  /** Work as cited ("Al-Bukhari", "Fathul-Bari") */
+  work: string;
+  /** Collection in this dataset, null for other works */
+  collection: CollectionId | null;
+  /** Locator as cited: hadith number ("34") or volume/page ("4/2083") */
+  locator: string | null;
+  locator_type: "number" | "volume_page" | null;
+  /** Resolved hadith as "<collection>:<hadith_number>", null if unresolved */
+  hadith: string | null;
+  /** 0 when unresolved; 0.9 for a hadith number, 0.8/0.5 for a unique/ambiguous text match */
+  confidence: number;
 }
 
 export interface ScrapedHisnChapter {
@@ -51,6 +70,8 @@ export interface HisnCollection {
     total_chapters: number;
     total_duas: number;
   };
+  /** Snapshot the page was parsed from */
+  source_page?: PageSource;
 }
 
 // ============================================================================
@@ -0,0 +1,266 @@
+/**
+ * Shared HTTP client for all scrapers
+ *
+ * - Per-host token bucket (one request per RATE_LIMIT_MS, bursts of RATE_LIMIT_BURST,
+ *   shared by all callers; setRateLimit() overrides both)
+ * - Exponential backoff with jitter, honouring Retry-After on 429/503
+ * - Request timeouts via AbortController
+ * - Conditional requests (If-None-Match / If-Modified-Since) against the snapshot store
+ * - Structured per-request metrics (data/http-metrics.jsonl)
+ */
+
+import { ensureDir } from "@std/fs";
+import {
+  MAX_RETRIES,
+  RATE_LIMIT_BURST,
+  RATE_LIMIT_MS,
+  REQUEST_TIMEOUT_MS,
+  RETRY_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  USER_AGENT,
+  type RequestMetric,
+} from "./types.ts";
+import { loadCachedPage, loadSnapshot, readSnapshotBody, saveSnapshot } from "./snapshot.ts";
+import { log } from "./state.ts";
+
+const METRICS_FILE = "./data/http-metrics.jsonl";
+
+const DEFAULT_HEADERS = {
+  "User-Agent": USER_AGENT,
+  "Accept": "text/html,application/xhtml+xml",
+  "Accept-Language": "en-US,en;q=0.9,ar;q=0.8",
+};
+
+export interface FetchOptions {
+  /** Serve the page from the snapshot store only (no network access) */
+  fromCache?: boolean;
+  /** Send If-None-Match / If-Modified-Since from the stored snapshot (default true) */
+  conditional?: boolean;
+}
+
+// ============================================================================
+// Rate limiting
+// ============================================================================
+
+interface TokenBucket {
+  tokens: number;
+  refilled_at: number;
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+/** Global request budget per host; the defaults allow one request per 1.5 s (2,400 an hour) */
+let rateLimit = { intervalMs: RATE_LIMIT_MS, burst: RATE_LIMIT_BURST };
+
+/**
+ * Set the per-host request budget: one token every intervalMs, at most burst
+ * saved up. Worker concurrency never raises it, so this is what bounds a crawl.
+ */
+export function setRateLimit(
+  { intervalMs = rateLimit.intervalMs, burst = rateLimit.burst }: { intervalMs?: number; burst?: number },
+): void {
+  rateLimit = { intervalMs, burst };
+  buckets.clear();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Take a token from the host's bucket, waiting until one is available.
+ * Tokens go negative while callers are queued, so concurrent callers are
+ * spaced intervalMs apart instead of all waking at once.
+ */
+async function acquireToken(host: string): Promise<void> {
+  const now = Date.now();
+  const bucket = buckets.get(host) ?? { tokens: rateLimit.burst, refilled_at: now };
+
+  bucket.tokens = Math.min(
+    rateLimit.burst,
+    bucket.tokens + (now - bucket.refilled_at) / rateLimit.intervalMs,
+  );
+  bucket.refilled_at = now;
+  bucket.tokens -= 1;
+  buckets.set(host, bucket);
+
+  if (bucket.tokens < 0) {
+    await sleep(-bucket.tokens * rateLimit.intervalMs);
+  }
+}
+
+// ============================================================================
+// Retry helpers
+// ============================================================================
+
+/**
+ * Exponential backoff with jitter: 50-100% of RETRY_DELAY_MS * 2^(attempt-1), capped
+ */
+function backoffDelay(attempt: number): number {
+  const base = Math.min(RETRY_MAX_DELAY_MS, RETRY_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(base / 2 + Math.random() * (base / 2));
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return null;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+const metrics: RequestMetric[] = [];
+
+async function recordMetric(metric: RequestMetric): Promise<void> {
+  metrics.push(metric);
+  try {
+    await ensureDir("./data");
+    await Deno.writeTextFile(METRICS_FILE, JSON.stringify(metric) + "\n", { append: true });
+  } catch {
+    // Metrics are best-effort; never fail a scrape over them
+  }
+}
+
+/**
+ * All request metrics recorded by this process
+ */
+export function getRequestMetrics(): readonly RequestMetric[] {
+  return metrics;
+}
+
+/**
+ * One-line summary of this process's requests (for end-of-run logging)
+ */
+export function summarizeRequestMetrics(): string {
+  const total = metrics.length;
+  if (total === 0) return "No HTTP requests made";
+
+  const failed = metrics.filter((m) => m.error !== null).length;
+  const notModified = metrics.filter((m) => m.not_modified).length;
+  const bytes = metrics.reduce((sum, m) => sum + m.bytes, 0);
+  const avgMs = metrics.reduce((sum, m) => sum + m.duration_ms, 0) / total;
+
+  return `${total} requests, ${failed} failed, ${notModified} not modified, ` +
+    `${(bytes / 1024 / 1024).toFixed(1)} MB, avg ${avgMs.toFixed(0)} ms`;
+}
+
+// ============================================================================
+// Fetch
+// ============================================================================
+
+/**
+ * Fetch a page as HTML.
+ *
+ * Successful responses are stored in the snapshot store; a 304 answer to a
+ * conditional request returns the stored body. Throws once retries are
+ * exhausted or on a non-retryable status (e.g. 404).
+ */
+export async function fetchHtml(url: string, options: FetchOptions = {}): Promise<string> {
+  if (options.fromCache) {
+    const cached = await loadCachedPage(url);
+    if (cached === null) {
+      throw new Error(`No cached snapshot for ${url}`);
+    }
+    log.info(`Loaded ${url} from snapshot cache`);
+    return cached;
+  }
+
+  const host = new URL(url).host;
+  const snapshot = options.conditional === false ? null : await loadSnapshot(url);
+
+  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    await acquireToken(host);
+    log.info(`Fetching ${url} (attempt ${attempt}/${MAX_RETRIES})`);
+
+    const headers: Record<string, string> = { ...DEFAULT_HEADERS };
+    if (snapshot?.headers["etag"]) headers["If-None-Match"] = snapshot.headers["etag"];
+    if (snapshot?.headers["last-modified"]) headers["If-Modified-Since"] = snapshot.headers["last-modified"];
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const startedAt = Date.now();
+
+    const metric: RequestMetric = {
+      url,
+      host,
+      attempt,
+      started_at: new Date(startedAt).toISOString(),
+      duration_ms: 0,
+      status: null,
+      bytes: 0,
+      not_modified: false,
+      retry_after_ms: null,
+      error: null,
+    };
+
+    let retryDelay = backoffDelay(attempt);
+    let message: string;
+    let retryable = true;
+
+    try {
+      const response = await fetch(url, { headers, signal: controller.signal });
+      metric.status = response.status;
+
+      if (response.status === 304 && snapshot) {
+        await response.body?.cancel();
+        const html = await readSnapshotBody(snapshot);
+        metric.not_modified = true;
+        metric.duration_ms = Date.now() - startedAt;
+        await recordMetric(metric);
+        return html;
+      }
+
+      if (response.ok) {
+        const html = await response.text();
+        metric.bytes = new TextEncoder().encode(html).length;
+        metric.duration_ms = Date.now() - startedAt;
+        await recordMetric(metric);
+        await saveSnapshot(url, html, response.status, Object.fromEntries(response.headers));
+        return html;
+      }
+
+      await response.body?.cancel();
+      message = `HTTP ${response.status}: ${response.statusText}`;
+      retryable = isRetryable(response.status);
+
+      if (response.status === 429 || response.status === 503) {
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        if (retryAfter !== null) {
+          metric.retry_after_ms = retryAfter;
+          retryDelay = Math.max(retryDelay, retryAfter);
+        }
+      }
+    } catch (error) {
+      message = controller.signal.aborted
+        ? `Timed out after ${REQUEST_TIMEOUT_MS} ms`
+        : error instanceof Error ? error.message : String(error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    metric.duration_ms = Date.now() - startedAt;
+    metric.error = message;
+    await recordMetric(metric);
+    log.warn(`Attempt ${attempt} failed: ${message}`);
+
+    if (attempt === MAX_RETRIES || !retryable) {
+      throw new Error(`Failed to fetch ${url} after ${attempt} attempt(s): ${message}`);
+    }
+
+    await sleep(retryDelay);
+  }
+
+  throw new Error("Unreachable");
+}
@@ -0,0 +1,187 @@
+/**
+ * Arabic isnad (chain of narration) parsing
+ *
+ * Narrator names sit between transmission words: "حَدَّثَنَا الْحُمَيْدِيُّ،
+ * قَالَ حَدَّثَنَا سُفْيَانُ، عَنْ يَحْيَى بْنِ سَعِيدٍ". A name ends at the next
+ * transmission word, a comma, a dash or a blessing ("رضى الله عنه"); the
+ * chain ends at the Prophet ﷺ, or at "أَنَّ" introducing the report itself.
+ *
+ * Each name becomes a link carrying the transmission word it was received
+ * with. "قَالَ" only continues the chain ("قَالَ حَدَّثَنَا سُفْيَانُ" is received
+ * with حَدَّثَنَا), and ح (tahwil) switches to a new chain: the compiler names
+ * a second route that joins the first further up, at a name both chains give
+ * or at the name after "قَالاَ" / "قَالُوا" ("both/all of them said").
+ */
+
+import { normalizeArabic } from "./arabic.ts";
+
+/** Transmission words, normalized (src/arabic.ts) */
+const TRANSMISSION_WORDS = new Set([
+  "حدثنا", "حدثني", "حدثناه", "حدثنيه", "حدثه", "حدث",
+  "اخبرنا", "اخبرني", "اخبرناه", "اخبره", "اخبر",
+  "انبانا", "انباني",
+  "سمعت", "سمعنا", "سمع",
+  "عن", "قال", "قالت", "قالا", "قالوا", "يقول", "تقول", "يحدث",
+  "انه", "انها", "انهما",
+]);
+
+/** Transmission words that only continue the chain; a following one is what the name was received with */
+const CONTINUATIONS = new Set(["قال", "قالت", "قالا", "قالوا", "يقول", "تقول"]);
+
+/** Continuations spoken by the last names of several chains: the next name is where they join */
+const JOINING = new Set(["قالا", "قالوا"]);
+
+/** ح (tahwil): switch to another chain */
+const TAHWIL = "ح";
+
+/** "أَنَّ": the chain continues through it only when a transmission word follows ("أَنَّ عُرْوَةَ حَدَّثَهُ") */
+const ANNA = "ان";
+
+/** Conjunctions prefixed to transmission words ("وَحَدَّثَنَا", "فَقَالَ") */
+const CONJUNCTION = /^[وف]/;
+
+const PUNCTUATION = /^[،,:؛.!؟"«»()\[\]ـ]+$/;
+const EDGE_PUNCTUATION = /^([،,:؛.!؟"«»()\[\]ـ]*)(.*?)([،,:؛.!؟"«»()\[\]ـ]*)$/s;
+
+/** Blessings after a name; they end it */
+const BLESSINGS = ["رضي الله عنه", "رضي الله عنها", "رضي الله عنهما", "رضي الله عنهم", "رحمه الله"]
+  .map((b) => b.split(" "));
+
+/** Descriptions that follow a name without a comma ("عَائِشَةَ أُمِّ الْمُؤْمِنِينَ") */
+const DESCRIPTIONS = [["ام", "المومنين"], ["علي", "المنبر"]];
+
+/** The Prophet ﷺ ends the chain */
+const PROPHET = [["رسول", "الله"], ["النبي"], ["نبي", "الله"]];
+
+interface Token {
+  text: string;
+  /** normalizeArabic(text); "" for punctuation */
+  key: string;
+}
+
+function tokenize(isnad: string): Token[] {
+  const tokens: Token[] = [];
+  for (const word of isnad.normalize("NFC").split(/\s+/)) {
+    if (!word) continue;
+    const [, lead, core, trail] = word.match(EDGE_PUNCTUATION)!;
+    if (lead) tokens.push({ text: lead, key: "" });
+    if (core && !PUNCTUATION.test(core)) tokens.push({ text: core, key: normalizeArabic(core) });
+    if (trail) tokens.push({ text: trail, key: "" });
+  }
+  return tokens;
+}
+
+function isTransmissionWord(key: string): boolean {
+  return TRANSMISSION_WORDS.has(key) || (CONJUNCTION.test(key) && TRANSMISSION_WORDS.has(key.slice(1)));
+}
+
+function startsWith(tokens: Token[], at: number, phrases: string[][]): boolean {
+  return phrases.some((phrase) => phrase.every((word, i) => tokens[at + i]?.key === word));
+}
+
+/** A transmission word comes before the Prophet ﷺ or the end */
+function continuesChain(tokens: Token[], from: number): boolean {
+  for (let i = from; i < tokens.length; i++) {
+    if (startsWith(tokens, i, PROPHET) || tokens[i].key === ANNA) return false;
+    if (isTransmissionWord(tokens[i].key)) return true;
+  }
+  return false;
+}
+
+export interface IsnadLink {
+  /** 1-based, in reading order across chains */
+  position: number;
+  /** 1-based; ح starts the next chain */
+  chain: number;
+  /** As written (diacritics kept) */
+  name_ar: string;
+  /** Word the name was received with, as written ("حَدَّثَنَا", "عَنْ", "أَنَّ"); null when none precedes it */
+  transmission_verb: string | null;
+  /** Named after "قَالاَ" / "قَالُوا": the earlier chains join this one here */
+  joins_chains: boolean;
+}
+
+function isContinuation(key: string): boolean {
+  return CONTINUATIONS.has(key) || (CONJUNCTION.test(key) && CONTINUATIONS.has(key.slice(1)));
+}
+
+/**
+ * Narrators of an isnad in order, each with the transmission word before it
+ */
+export function parseIsnad(isnad: string | null): IsnadLink[] {
+  if (!isnad) return [];
+  const tokens = tokenize(isnad);
+  const links: IsnadLink[] = [];
+  let current: string[] = [];
+  let chain = 1;
+  // Transmission word for the name being read; a later one replaces a continuation ("قَالَ حَدَّثَنَا")
+  let verb: string | null = null;
+  let verbIsContinuation = false;
+  let joining = false;
+  // After a comma or blessing, words up to the next transmission word are not the name
+  let closed = false;
+
+  const flush = () => {
+    if (current.length > 0) {
+      links.push({
+        position: links.length + 1,
+        chain,
+        name_ar: current.join(" "),
+        transmission_verb: verb,
+        joins_chains: joining,
+      });
+      verb = null;
+      verbIsContinuation = false;
+      joining = false;
+    }
+    current = [];
+    closed = false;
+  };
+
+  const receive = (text: string, key: string) => {
+    if (chain > 1 && (JOINING.has(key) || (CONJUNCTION.test(key) && JOINING.has(key.slice(1))))) joining = true;
+    if (verb === null || verbIsContinuation || !isContinuation(key)) {
+      verb = text;
+      verbIsContinuation = isContinuation(key);
+    }
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const { text, key } = tokens[i];
+
+    if (startsWith(tokens, i, PROPHET)) break;
+    if (key === ANNA || key === `و${ANNA}`) {
+      if (!continuesChain(tokens, i + 1)) break;
+      flush();
+      receive(text, key);
+      continue;
+    }
+    if (key === TAHWIL || key === `و${TAHWIL}`) {
+      flush();
+      chain++;
+      verb = null;
+      joining = false;
+      continue;
+    }
+    if (isTransmissionWord(key)) {
+      flush();
+      receive(text, key);
+      continue;
+    }
+    if (key === "" || startsWith(tokens, i, BLESSINGS) || startsWith(tokens, i, DESCRIPTIONS)) {
+      closed = current.length > 0 || closed;
+      continue;
+    }
+    if (!closed) current.push(text);
+  }
+  flush();
+
+  return links;
+}
+
+/**
+ * Narrator names of an isnad in order, as written (diacritics kept)
+ */
+export function isnadNames(isnad: string | null): string[] {
+  return parseIsnad(isnad).map((link) => link.name_ar);
+}
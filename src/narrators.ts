@@ -0,0 +1,308 @@
+/**
+ * Narrator registry (`ohd narrators`)
+ *
+ * `narrator` is free English text, so "Abu Huraira", "Abu Hurairah" and "Abu
+ * Hurayra" are different strings. The registry clusters them on a spelling key
+ * (narratorKey) and pairs each with the last name of the hadith's isnad_ar,
+ * which is the same person, to get the Arabic name. The first name of every
+ * isnad_ar (the compiler's teacher) is registered by its Arabic name alone.
+ * KNOWN_NARRATORS seeds the frequent Companions with their canonical names and
+ * the aliases spelling keys cannot match ("Ibn 'Umar" for 'Abdullah bin 'Umar).
+ *
+ * The registry is written to data/narrators.json; the builds resolve every
+ * hadith's narrator against it (resolveNarrator).
+ */
+
+import type { ScrapedHadith } from "./types.ts";
+import { normalizeArabic } from "./arabic.ts";
+import { isnadNames } from "./isnad.ts";
+import { loadCollectionHadiths } from "./state.ts";
+
+const DATA_DIR = "./data";
+export const REGISTRY_PATH = `${DATA_DIR}/narrators.json`;
+
+export interface Narrator {
+  /** Slug of the English name ("abu-huraira"), or of the Arabic name when there is none */
+  id: string;
+  name_en: string | null;
+  name_ar: string | null;
+  /** Spellings seen in the data and seeded, most frequent first */
+  aliases_en: string[];
+  aliases_ar: string[];
+  /** Hadiths whose `narrator` resolves to this narrator */
+  hadiths: number;
+}
+
+export interface NarratorRegistry {
+  generated_at: string;
+  narrators: Narrator[];
+}
+
+interface KnownNarrator {
+  name_en: string;
+  name_ar: string;
+  aliases_en?: string[];
+  aliases_ar?: string[];
+}
+
+/** Frequent Companions, with the aliases their spelling keys do not share */
+const KNOWN_NARRATORS: KnownNarrator[] = [
+  { name_en: "Abu Huraira", name_ar: "أَبُو هُرَيْرَةَ" },
+  { name_en: "'Aisha", name_ar: "عَائِشَةُ", aliases_en: ["'Aisha bint Abi Bakr", "Umm al-Mu'minin 'Aisha"] },
+  { name_en: "'Abdullah bin 'Umar", name_ar: "عَبْدُ اللَّهِ بْنُ عُمَرَ", aliases_en: ["Ibn 'Umar"], aliases_ar: ["ابْنُ عُمَرَ"] },
+  { name_en: "'Abdullah bin 'Abbas", name_ar: "عَبْدُ اللَّهِ بْنُ عَبَّاسٍ", aliases_en: ["Ibn 'Abbas"], aliases_ar: ["ابْنُ عَبَّاسٍ"] },
+  { name_en: "'Abdullah bin Mas'ud", name_ar: "عَبْدُ اللَّهِ بْنُ مَسْعُودٍ", aliases_en: ["Ibn Mas'ud"], aliases_ar: ["ابْنُ مَسْعُودٍ"] },
+  { name_en: "'Abdullah bin 'Amr", name_ar: "عَبْدُ اللَّهِ بْنُ عَمْرٍو", aliases_en: ["'Abdullah bin 'Amr bin Al-'As"] },
+  { name_en: "Anas bin Malik", name_ar: "أَنَسُ بْنُ مَالِكٍ", aliases_en: ["Anas"], aliases_ar: ["أَنَسٌ"] },
+  { name_en: "Jabir bin 'Abdullah", name_ar: "جَابِرُ بْنُ عَبْدِ اللَّهِ", aliases_en: ["Jabir"], aliases_ar: ["جَابِرٌ"] },
+  { name_en: "Abu Sa'id Al-Khudri", name_ar: "أَبُو سَعِيدٍ الْخُدْرِيُّ", aliases_en: ["Abu Sa'id"], aliases_ar: ["أَبُو سَعِيدٍ"] },
+  { name_en: "'Umar bin Al-Khattab", name_ar: "عُمَرُ بْنُ الْخَطَّابِ", aliases_en: ["'Umar", "Amir al-Mu'minin"], aliases_ar: ["عُمَرُ"] },
+  { name_en: "'Ali bin Abi Talib", name_ar: "عَلِيُّ بْنُ أَبِي طَالِبٍ", aliases_en: ["'Ali"], aliases_ar: ["عَلِيٌّ"] },
+  { name_en: "'Uthman bin 'Affan", name_ar: "عُثْمَانُ بْنُ عَفَّانَ", aliases_en: ["'Uthman"] },
+  { name_en: "Abu Bakr As-Siddiq", name_ar: "أَبُو بَكْرٍ الصِّدِّيقُ", aliases_en: ["Abu Bakr"], aliases_ar: ["أَبُو بَكْرٍ"] },
+  { name_en: "Abu Musa Al-Ash'ari", name_ar: "أَبُو مُوسَى الأَشْعَرِيُّ", aliases_en: ["Abu Musa"], aliases_ar: ["أَبُو مُوسَى"] },
+  { name_en: "Abu Dharr", name_ar: "أَبُو ذَرٍّ", aliases_en: ["Abu Dhar", "Abu Zarr"] },
+  { name_en: "Mu'adh bin Jabal", name_ar: "مُعَاذُ بْنُ جَبَلٍ" },
+  { name_en: "Al-Bara' bin 'Azib", name_ar: "الْبَرَاءُ بْنُ عَازِبٍ", aliases_en: ["Al-Bara'"] },
+  { name_en: "Sahl bin Sa'd", name_ar: "سَهْلُ بْنُ سَعْدٍ" },
+  { name_en: "Umm Salama", name_ar: "أُمُّ سَلَمَةَ" },
+  { name_en: "Abu Ayyub Al-Ansari", name_ar: "أَبُو أَيُّوبَ الأَنْصَارِيُّ", aliases_en: ["Abu Ayyub"] },
+  { name_en: "Abu Qatada", name_ar: "أَبُو قَتَادَةَ" },
+  { name_en: "Ubayy bin Ka'b", name_ar: "أُبَىُّ بْنُ كَعْبٍ" },
+  { name_en: "An-Nu'man bin Bashir", name_ar: "النُّعْمَانُ بْنُ بَشِيرٍ" },
+  { name_en: "'Ubada bin As-Samit", name_ar: "عُبَادَةُ بْنُ الصَّامِتِ" },
+  { name_en: "Hudhaifa bin Al-Yaman", name_ar: "حُذَيْفَةُ بْنُ الْيَمَانِ", aliases_en: ["Hudhaifa", "Hudhayfah"], aliases_ar: ["حُذَيْفَةُ"] },
+  { name_en: "Abu Ad-Darda'", name_ar: "أَبُو الدَّرْدَاءِ" },
+  { name_en: "Abu Umama", name_ar: "أَبُو أُمَامَةَ" },
+  { name_en: "Mu'awiya bin Abi Sufyan", name_ar: "مُعَاوِيَةُ بْنُ أَبِي سُفْيَانَ", aliases_en: ["Mu'awiya"] },
+];
+
+/** Pronouns and relatives that stand in for a name ("عَنْ أَبِيهِ", "It is narrated") */
+const NOT_NAMES_EN = new Set(["it is", "it was", "he", "she", "they", "it", "this", "my father", "his father"]);
+const NOT_NAMES_AR = new Set(["ابيه", "ابي", "ابيها", "جده", "جدي", "امه", "امي", "عمه", "عمي", "خاله", "رجل", "فلان"]);
+
+/** Arabic definite-article spellings of a sun-letter assimilation ("Az-Zuhri", "Ash-Sha'bi") */
+const ARTICLE = /\b(?:al|an|ar|as|ash|at|az|ad|adh|ath|ud|ul)\s+(?=\w)/g;
+
+/**
+ * Spelling key of an English name: "Abu Hurairah" and "Abu Hurayra" both
+ * become "abu huraira"
+ */
+export function narratorKey(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/['’‘`ʿʾ]/g, "")
+    .replace(/[-.,:]/g, " ")
+    .replace(/\b(?:bin|ibn|b)\b/g, "ibn")
+    .replace(ARTICLE, "al ")
+    .replace(/ee/g, "i")
+    .replace(/oo|ou/g, "u")
+    .replace(/ay/g, "ai")
+    .replace(/([a-z])\1+/g, "$1")
+    .replace(/([aiu])h\b/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Key of an Arabic name: normalized, kunya case endings folded
+ * ("أَبِي هُرَيْرَةَ" after عَنْ is "أَبُو هُرَيْرَةَ")
+ */
+export function arabicNarratorKey(name: string): string {
+  return normalizeArabic(name)
+    .split(" ")
+    .map((word, i) => (word === "ابي" || word === "ابا") ? "ابو" : (i > 0 && word === "ابن") ? "بن" : word)
+    .join(" ");
+}
+
+/** Hyphenated key, the form of registry ids */
+export function narratorSlug(key: string): string {
+  return key.replace(/\s+/g, "-");
+}
+
+/** A narrator being collected; id and names are settled in build() */
+interface Entry extends Narrator {
+  counts_en: Map<string, number>;
+  counts_ar: Map<string, number>;
+}
+
+/** Registry under construction: entries and the keys that lead to them */
+class RegistryBuilder {
+  readonly entries: Entry[] = [];
+  private readonly byKeyEn = new Map<string, Entry>();
+  private readonly byKeyAr = new Map<string, Entry>();
+
+  constructor(known: KnownNarrator[]) {
+    for (const k of known) {
+      const entry = this.create(k.name_en, k.name_ar);
+      for (const alias of [k.name_en, ...k.aliases_en ?? []]) this.byKeyEn.set(narratorKey(alias), entry);
+      for (const alias of [k.name_ar, ...k.aliases_ar ?? []]) this.byKeyAr.set(arabicNarratorKey(alias), entry);
+    }
+  }
+
+  private create(nameEn: string | null, nameAr: string | null): Entry {
+    const entry: Entry = {
+      id: "",
+      name_en: nameEn,
+      name_ar: nameAr,
+      aliases_en: [],
+      aliases_ar: [],
+      hadiths: 0,
+      counts_en: new Map(),
+      counts_ar: new Map(),
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  private see(entry: Entry, nameEn: string | null, nameAr: string | null) {
+    if (nameEn) {
+      entry.counts_en.set(nameEn, (entry.counts_en.get(nameEn) ?? 0) + 1);
+      this.byKeyEn.set(narratorKey(nameEn), entry);
+    }
+    if (nameAr) {
+      entry.counts_ar.set(nameAr, (entry.counts_ar.get(nameAr) ?? 0) + 1);
+      // An Arabic name already tied to someone else stays with them
+      if (!this.byKeyAr.has(arabicNarratorKey(nameAr))) this.byKeyAr.set(arabicNarratorKey(nameAr), entry);
+    }
+  }
+
+  /** Register an English and/or Arabic name of one person */
+  add(nameEn: string | null, nameAr: string | null): Entry | null {
+    const en = nameEn && isName(nameEn) ? nameEn : null;
+    const ar = nameAr && isArabicName(nameAr) ? nameAr : null;
+    if (!en && !ar) return null;
+
+    const entry = (en ? this.byKeyEn.get(narratorKey(en)) : undefined) ??
+      (ar ? this.byKeyAr.get(arabicNarratorKey(ar)) : undefined) ??
+      this.create(null, null);
+    this.see(entry, en, ar);
+    return entry;
+  }
+
+  build(): Narrator[] {
+    const byFrequency = (counts: Map<string, number>) =>
+      [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+
+    const ids = new Set<string>();
+    return this.entries
+      .filter((e) => e.counts_en.size > 0 || e.counts_ar.size > 0)
+      .map((e) => {
+        const aliasesEn = byFrequency(e.counts_en);
+        const aliasesAr = byFrequency(e.counts_ar);
+        const nameEn = e.name_en ?? aliasesEn[0] ?? null;
+        const nameAr = e.name_ar ?? aliasesAr[0] ?? null;
+        let id = nameEn ? narratorSlug(narratorKey(nameEn)) : narratorSlug(arabicNarratorKey(nameAr!));
+        for (let n = 2; ids.has(id); n++) id = `${id.replace(/-\d+$/, "")}-${n}`;
+        ids.add(id);
+        return { id, name_en: nameEn, name_ar: nameAr, aliases_en: aliasesEn, aliases_ar: aliasesAr, hadiths: e.hadiths };
+      });
+  }
+}
+
+/** Bare names several Companions share ('Abdullah: Ibn 'Umar, Ibn 'Abbas, Ibn Mas'ud, Ibn 'Amr) */
+const AMBIGUOUS_EN = new Set(["'Abdullah"].map((name) => narratorKey(name)));
+const AMBIGUOUS_AR = new Set(["عَبْدُ اللَّهِ"].map((name) => arabicNarratorKey(name)));
+
+/** False for pronouns and for bare names that do not tell narrators apart */
+function isName(name: string): boolean {
+  return /[a-z]/i.test(name) && !NOT_NAMES_EN.has(narratorKey(name)) && !AMBIGUOUS_EN.has(narratorKey(name));
+}
+
+/**
+ * False for relatives and placeholders ("أَبِيهِ", "رَجُلٍ"), which name a
+ * different person in every isnad, and for a bare "عَبْدِ اللَّهِ"
+ */
+export function isArabicName(name: string): boolean {
+  return !NOT_NAMES_AR.has(normalizeArabic(name)) && !NOT_NAMES_AR.has(arabicNarratorKey(name)) &&
+    !AMBIGUOUS_AR.has(arabicNarratorKey(name));
+}
+
+/**
+ * Cluster the narrators of every scraped collection into a registry
+ */
+export async function buildNarratorRegistry(dir = `${DATA_DIR}/collections`): Promise<NarratorRegistry> {
+  const builder = new RegistryBuilder(KNOWN_NARRATORS);
+
+  for (const { hadiths } of await loadCollectionHadiths(dir)) {
+    for (const h of hadiths) {
+      const chain = isnadNames(h.isnad_ar);
+      // The English narrator is the last link of the Arabic chain
+      const entry = builder.add(h.narrator, chain.at(-1) ?? null);
+      if (entry) entry.hadiths++;
+      if (chain.length > 1) builder.add(null, chain[0]);
+    }
+  }
+
+  return { generated_at: new Date().toISOString(), narrators: builder.build() };
+}
+
+/** Alias keys of a registry, for resolveNarrator */
+export interface NarratorIndex {
+  en: Map<string, string>;
+  ar: Map<string, string>;
+}
+
+export function indexRegistry(registry: NarratorRegistry): NarratorIndex {
+  const index: NarratorIndex = { en: new Map(), ar: new Map() };
+  for (const n of registry.narrators) {
+    for (const alias of [n.name_en, ...n.aliases_en]) {
+      if (alias) index.en.set(narratorKey(alias), n.id);
+    }
+    for (const alias of [n.name_ar, ...n.aliases_ar]) {
+      if (!alias) continue;
+      const key = arabicNarratorKey(alias);
+      if (!index.ar.has(key)) index.ar.set(key, n.id);
+    }
+  }
+  return index;
+}
+
+/**
+ * Registry id of a hadith's narrator: by its English name, else by the last
+ * name of its Arabic isnad
+ */
+export function resolveNarrator(index: NarratorIndex, h: Pick<ScrapedHadith, "narrator" | "isnad_ar">): string | null {
+  if (h.narrator && isName(h.narrator)) {
+    const id = index.en.get(narratorKey(h.narrator));
+    if (id) return id;
+  }
+  const last = isnadNames(h.isnad_ar).at(-1);
+  return last ? resolveArabicName(index, last) : null;
+}
+
+/**
+ * Registry id of an isnad_ar name, null when it was never registered
+ */
+export function resolveArabicName(index: NarratorIndex, name: string): string | null {
+  return index.ar.get(arabicNarratorKey(name)) ?? null;
+}
+
+/**
+ * Read data/narrators.json; null when `ohd narrators` has not been run
+ */
+export async function loadNarratorRegistry(path = REGISTRY_PATH): Promise<NarratorRegistry | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+/**
+ * Build the registry from data/collections/ and write data/narrators.json
+ */
+export async function writeNarratorRegistry(): Promise<{ output: string; narrators: number; with_arabic: number }> {
+  const registry = await buildNarratorRegistry();
+  await Deno.writeTextFile(REGISTRY_PATH, JSON.stringify(registry, null, 2));
+
+  const withArabic = registry.narrators.filter((n) => n.name_ar).length;
+  console.log(`\nNarrators: ${registry.narrators.length} (${withArabic} with an Arabic name)`);
+  console.log(`  Written to ${REGISTRY_PATH}`);
+
+  return { output: REGISTRY_PATH, narrators: registry.narrators.length, with_arabic: withArabic };
+}
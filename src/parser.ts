@@ -9,11 +9,18 @@ import type {
   CollectionType,
   ParsedBookPage,
   ScrapedChapter,
+  HadithGrade,
   ScrapedHadith,
+  SourceCitation,
+  SplitMethod,
 } from "./types.ts";
+import { classifyGrade, gradeTermCategory } from "./grades.ts";
+import { normalizeArabic, plainArabic } from "./arabic.ts";
 
-// Collection display names for reference matching
-const COLLECTION_NAMES: Record<CollectionId, string> = {
+/**
+ * Collection display names used in `reference` ("Sahih al-Bukhari 1")
+ */
+export const COLLECTION_NAMES: Record<CollectionId, string> = {
   bukhari: "Sahih al-Bukhari",
   muslim: "Sahih Muslim",
   malik: "Muwatta Malik",
@@ -63,9 +70,14 @@ export function parseBookPage(
 
   const bookNameEn = extractBookNameEn(doc) || `Book ${bookNumber}`;
   const bookNameAr = extractBookNameAr(doc);
-  const chapters = extractChapters(doc);
+  const headings = extractChapterHeadings(doc);
+  const chapters = headings
+    .map((h) => h.chapter)
+    .filter((c): c is ScrapedChapter => c !== null);
   const hadiths = extractHadiths(doc, collectionId, collectionType);
 
+  assignChapterNumbers(doc, headings, hadiths, collectionId);
+
   // Set url_source for each hadith (format: https://sunnah.com/collection:number)
   for (const hadith of hadiths) {
     hadith.url_source = `https://sunnah.com/${collectionId}:${hadith.hadith_number}`;
@@ -161,6 +173,18 @@ function extractBookNameAr(doc: HTMLDocument): string | null {
   return null;
 }
 
+/**
+ * A chapter header element, in page order.
+ * `chapter` is null for headers that are not emitted as chapters (repeated
+ * numbers, or headers with no title); `chapter_number` is null for untitled
+ * headers, whose hadiths are left unlinked since no chapter row exists for them.
+ */
+interface ChapterHeading {
+  element: Element;
+  chapter_number: number | null;
+  chapter: ScrapedChapter | null;
+}
+
 /**
  * Extract chapters from page using proper CSS selectors
  * HTML structure: <div class="chapter">
@@ -170,7 +194,8 @@ function extractBookNameAr(doc: HTMLDocument): string | null {
  *   <div class="arabicchapter arabic">باب العنوان</div>
  * </div>
  */
-function extractChapters(doc: HTMLDocument): ScrapedChapter[] {
+function extractChapterHeadings(doc: HTMLDocument): ChapterHeading[] {
+  const headings: ChapterHeading[] = [];
   const chapters: ScrapedChapter[] = [];
   const seenNumbers = new Set<number>();
 
@@ -214,23 +239,32 @@ function extractChapters(doc: HTMLDocument): ScrapedChapter[] {
       if (nameAr && nameAr.length < 2) nameAr = null;
     }
 
-    // Skip if no valid content
-    if (!nameEn && !nameAr) continue;
+    // Skip if no valid content (but remember where the untitled chapter starts)
+    if (!nameEn && !nameAr) {
+      headings.push({ element: el, chapter_number: null, chapter: null });
+      continue;
+    }
 
     // Assign chapter number if not found
     if (chapterNum === null) {
       chapterNum = chapters.length + 1;
     }
 
-    // Avoid duplicates
-    if (seenNumbers.has(chapterNum)) continue;
-    seenNumbers.add(chapterNum);
-
-    chapters.push({
+    const chapter: ScrapedChapter = {
       chapter_number: chapterNum,
       name_en: nameEn,
       name_ar: nameAr,
-    });
+    };
+
+    // Avoid duplicates
+    if (seenNumbers.has(chapterNum)) {
+      headings.push({ element: el, chapter_number: chapterNum, chapter: null });
+      continue;
+    }
+    seenNumbers.add(chapterNum);
+
+    chapters.push(chapter);
+    headings.push({ element: el, chapter_number: chapterNum, chapter });
   }
 
   // Fallback: If no .chapter containers found, try older format
@@ -251,18 +285,76 @@ function extractChapters(doc: HTMLDocument): ScrapedChapter[] {
       const title = text.replace(/^\(\d+\)\s*/, "").replace(/^Chapter:?\s*/i, "");
 
       if (title && title.length > 2) {
-        chapters.push({
+        headings.push({
+          element: el as Element,
           chapter_number: chapterNum,
-          name_en: isArabic ? null : title,
-          name_ar: isArabic ? title : null,
+          chapter: {
+            chapter_number: chapterNum,
+            name_en: isArabic ? null : title,
+            name_ar: isArabic ? title : null,
+          },
         });
       }
     }
   }
 
-  return chapters;
+  return headings;
 }
 
+/**
+ * Link each hadith to the chapter heading that precedes it in document order.
+ * Hadiths before the first heading, under an untitled heading, or on pages
+ * without headings keep chapter_number = null.
+ */
+function assignChapterNumbers(
+  doc: HTMLDocument,
+  headings: ChapterHeading[],
+  hadiths: ScrapedHadith[],
+  collectionId: CollectionId,
+): void {
+  if (headings.length === 0 || hadiths.length === 0) return;
+
+  const headingNumbers = new Map<Element, number | null>();
+  for (const heading of headings) {
+    headingNumbers.set(heading.element, heading.chapter_number);
+  }
+
+  // A single query returns headers and hadith containers interleaved in document order
+  const elements = doc.querySelectorAll(
+    `.chapter, .achapter, .chapterTitle, ${HADITH_CONTAINER_SELECTOR}`,
+  );
+
+  const chapterByHadith = new Map<string, number>();
+  let currentChapter: number | null = null;
+
+  for (const node of elements) {
+    const el = node as Element;
+
+    if (headingNumbers.has(el)) {
+      currentChapter = headingNumbers.get(el) ?? null;
+      continue;
+    }
+
+    if (currentChapter === null) continue;
+
+    // Nested matches resolve to the same number; the outermost container wins
+    const hadithNumber = extractHadithNumber(el, collectionId);
+    if (hadithNumber && !chapterByHadith.has(hadithNumber)) {
+      chapterByHadith.set(hadithNumber, currentChapter);
+    }
+  }
+
+  for (const hadith of hadiths) {
+    hadith.chapter_number = chapterByHadith.get(hadith.hadith_number) ?? null;
+  }
+}
+
+/**
+ * Elements that may hold a single hadith (matches nested elements too)
+ */
+const HADITH_CONTAINER_SELECTOR =
+  ".hadithContainer, .actualHadithContainer, .hadith, [class*='hadith']";
+
 /**
  * Extract all hadiths from page using DOM
  */
@@ -276,25 +368,20 @@ function extractHadiths(
 
   // Sunnah.com uses specific container classes for hadiths
   // Try multiple selectors based on DOM analysis
-  const hadithContainers = doc.querySelectorAll(
-    ".hadithContainer, .actualHadithContainer, .hadith, [class*='hadith']"
-  );
+  const hadithContainers = doc.querySelectorAll(HADITH_CONTAINER_SELECTOR);
 
   // If containers found, process each one
   if (hadithContainers.length > 0) {
+    const seenNumbers = new Set<string>();
+
     for (const container of hadithContainers) {
       const el = container as Element;
       const hadith = parseHadithContainer(el, collectionId, collectionType, collectionName);
-      if (hadith) {
-        // Check for duplicates (variants)
-        const existingIdx = hadiths.findIndex(
-          (h) => h.hadith_number.replace(/[a-z]$/, "") === hadith.hadith_number.replace(/[a-z]$/, "")
-        );
-        if (existingIdx !== -1) {
-          hadiths[existingIdx].has_variants = true;
-        } else {
-          hadiths.push(hadith);
-        }
+      // Nested matches of the same container yield the same number; keep the first.
+      // Variants (8a, 8b) have distinct numbers and are each kept.
+      if (hadith && !seenNumbers.has(hadith.hadith_number)) {
+        seenNumbers.add(hadith.hadith_number);
+        hadiths.push(hadith);
       }
     }
   }
@@ -310,15 +397,9 @@ function extractHadiths(
 
       if (match) {
         const num = match[2] ? `${match[1]}${match[2]}` : match[1];
-        const baseNum = num.replace(/[a-z]$/, "");
 
-        if (seenNumbers.has(baseNum)) {
-          // Mark as having variants
-          const existing = hadiths.find((h) => h.hadith_number.replace(/[a-z]$/, "") === baseNum);
-          if (existing) existing.has_variants = true;
-          continue;
-        }
-        seenNumbers.add(baseNum);
+        if (seenNumbers.has(num)) continue;
+        seenNumbers.add(num);
 
         // Find the hadith content around this link
         const hadith = extractHadithFromLink(link as Element, num, collectionId, collectionType, collectionName);
@@ -331,27 +412,47 @@ function extractHadiths(
 
   // Second fallback: Find by collection name pattern in text
   if (hadiths.length === 0) {
-    return extractHadithsByTextPattern(doc, collectionId, collectionType, collectionName);
+    hadiths.push(...extractHadithsByTextPattern(doc, collectionId, collectionType, collectionName));
   }
 
+  markVariants(hadiths);
+
   return hadiths;
 }
 
 /**
- * Parse a hadith container element
- * Extracts separated fields for training:
- * - matn_ar: Arabic hadith text (actual Prophet's ﷺ words) from .arabic_text_details
- * - matn_en: English hadith text from .text_details
- * - isnad_ar: First chain of narration from first .arabic_sanad
- * - closing_ar: Second isnad/closing from second .arabic_sanad (if exists)
+ * Link variant narrations (e.g. 1234a, 1234b) to their shared base number.
+ * Every member of a group with more than one record gets has_variants = true.
  */
-function parseHadithContainer(
-  container: Element,
-  collectionId: CollectionId,
-  collectionType: CollectionType,
-  collectionName: string,
-): ScrapedHadith | null {
-  // Find hadith number - look for reference links or text
+function markVariants(hadiths: ScrapedHadith[]): void {
+  const groups = new Map<string, ScrapedHadith[]>();
+
+  for (const hadith of hadiths) {
+    const match = hadith.hadith_number.match(/^(\d+)([a-z])$/);
+    hadith.variant_of = match ? match[1] : null;
+    hadith.variant_suffix = match ? match[2] : null;
+
+    const base = match ? match[1] : hadith.hadith_number;
+    const group = groups.get(base);
+    if (group) {
+      group.push(hadith);
+    } else {
+      groups.set(base, [hadith]);
+    }
+  }
+
+  for (const group of groups.values()) {
+    if (group.length > 1) {
+      for (const hadith of group) hadith.has_variants = true;
+    }
+  }
+}
+
+/**
+ * Find a container's hadith number from its reference link, reference text,
+ * data/id attributes or <a name=N> anchor
+ */
+function extractHadithNumber(container: Element, collectionId: CollectionId): string | null {
   let hadithNumber: string | null = null;
 
   // Try link with collection ID
@@ -395,6 +496,24 @@ function parseHadithContainer(
     }
   }
 
+  return hadithNumber;
+}
+
+/**
+ * Parse a hadith container element
+ * Extracts separated fields for training:
+ * - matn_ar: Arabic hadith text (actual Prophet's ﷺ words) from .arabic_text_details
+ * - matn_en: English hadith text from .text_details
+ * - isnad_ar: First chain of narration from first .arabic_sanad
+ * - closing_ar: Second isnad/closing from second .arabic_sanad (if exists)
+ */
+function parseHadithContainer(
+  container: Element,
+  collectionId: CollectionId,
+  collectionType: CollectionType,
+  collectionName: string,
+): ScrapedHadith | null {
+  const hadithNumber = extractHadithNumber(container, collectionId);
   if (!hadithNumber) return null;
 
   // =========================================================================
@@ -448,6 +567,8 @@ function parseHadithContainer(
     }
   }
 
+  let splitMethod: SplitMethod = isnadAr || matnAr ? "dom" : "none";
+
   // When .arabic_sanad was empty but .arabic_text_details has full text (isnad + matn combined),
   // try to split using narration verb patterns
   if (!isnadAr && matnAr && startsWithIsnadPattern(matnAr)) {
@@ -455,6 +576,7 @@ function parseHadithContainer(
     if (split) {
       isnadAr = split.isnad;
       matnAr = split.matn;
+      splitMethod = split.method;
     }
   }
 
@@ -464,10 +586,12 @@ function parseHadithContainer(
     if (split) {
       isnadAr = split.isnad;
       matnAr = split.matn;
+      splitMethod = split.method;
     } else {
       isnadAr = extractIsnadAr(textAr);
       // For flat collections, matn_ar = full text (no separation possible)
       matnAr = textAr;
+      splitMethod = isnadAr ? "regex" : "none";
     }
   }
 
@@ -543,9 +667,12 @@ function parseHadithContainer(
   let sourceReference: string | null = null;
   let sourceGrade: string | null = null;
 
+  let sourceCitations: SourceCitation[] = [];
+
   if (collectionType === "compilation") {
     sourceReference = extractSourceReference(container);
     sourceGrade = extractSourceGrade(container);
+    sourceCitations = parseSourceCitations(sourceReference, extractSourceLinks(container, collectionId));
   }
 
   // Extract grade from .gradetable (used by nasai, abudawud, tirmidhi, etc.)
@@ -554,6 +681,7 @@ function parseHadithContainer(
   if (!sourceGrade && grades.normalized) {
     sourceGrade = grades.normalized;
   }
+  const gradeCategory = sourceGrade ? gradeTermCategory(sourceGrade) : null;
 
   return {
     hadith_number: hadithNumber,
@@ -567,12 +695,21 @@ function parseHadithContainer(
     matn_ar: matnAr,
     matn_en: matnEn,
     closing_ar: closingAr,
+    matn_ar_plain: plainArabic(matnAr),
+    isnad_ar_plain: plainArabic(isnadAr),
+    split_method: splitMethod,
+    split_confidence: splitConfidence(splitMethod, isnadAr, matnAr),
     narrator,
     has_variants: false,
+    variant_of: null,
+    variant_suffix: null,
     source_reference: sourceReference,
+    source_citations: sourceCitations,
     source_grade: sourceGrade,
     grade_en: grades.grade_en,
     grade_ar: grades.grade_ar,
+    grades: grades.grades,
+    grade_category: gradeCategory,
     url_source: null, // Will be set by parseBookPage/parseFlatCollectionPage
   };
 }
@@ -636,6 +773,9 @@ function extractHadithFromLink(
   const textEn = englishMatch ? cleanEnglishText(englishMatch[1]) : null;
   if (!textEn) return null;
 
+  const sourceReference = collectionType === "compilation" ? extractSourceReferenceFromText(window) : null;
+  const isnadAr = extractIsnadAr(textAr);
+
   return {
     hadith_number: hadithNumber,
     reference: `${collectionName} ${hadithNumber}`,
@@ -643,17 +783,26 @@ function extractHadithFromLink(
     chapter_number: null,
     text_ar: textAr,
     text_en: textEn,
-    isnad_ar: extractIsnadAr(textAr),
+    isnad_ar: isnadAr,
     isnad_en: extractIsnadEn(textEn),
     matn_ar: textAr, // Fallback: use full text as matn
     matn_en: textEn, // Fallback: use full text as matn
     closing_ar: null,
+    matn_ar_plain: plainArabic(textAr),
+    isnad_ar_plain: plainArabic(isnadAr),
+    split_method: isnadAr ? "regex" : "none",
+    split_confidence: splitConfidence(isnadAr ? "regex" : "none", isnadAr, textAr),
     narrator: extractNarrator(textEn),
     has_variants: false,
-    source_reference: collectionType === "compilation" ? extractSourceReferenceFromText(window) : null,
+    variant_of: null,
+    variant_suffix: null,
+    source_reference: sourceReference,
+    source_citations: parseSourceCitations(sourceReference),
     source_grade: null,
     grade_en: null,
     grade_ar: null,
+    grades: [],
+    grade_category: null,
     url_source: null,
   };
 }
@@ -681,10 +830,9 @@ function extractHadithsByTextPattern(
 
   while ((match = refPattern.exec(bodyText)) !== null) {
     const num = match[2] ? `${match[1]}${match[2]}` : match[1];
-    const baseNum = num.replace(/[a-z]$/, "");
 
-    if (seenNumbers.has(baseNum)) continue;
-    seenNumbers.add(baseNum);
+    if (seenNumbers.has(num)) continue;
+    seenNumbers.add(num);
 
     // Extract content around this match
     const startIdx = Math.max(0, match.index - 2000);
@@ -703,6 +851,9 @@ function extractHadithsByTextPattern(
     const textEn = englishMatch ? cleanEnglishText(englishMatch[1]) : null;
     if (!textEn) continue;
 
+    const sourceReference = collectionType === "compilation" ? extractSourceReferenceFromText(section) : null;
+    const isnadAr = extractIsnadAr(textAr);
+
     hadiths.push({
       hadith_number: num,
       reference: `${collectionName} ${num}`,
@@ -710,17 +861,26 @@ function extractHadithsByTextPattern(
       chapter_number: null,
       text_ar: textAr,
       text_en: textEn,
-      isnad_ar: extractIsnadAr(textAr),
+      isnad_ar: isnadAr,
       isnad_en: extractIsnadEn(textEn),
       matn_ar: textAr, // Fallback: use full text as matn
       matn_en: textEn, // Fallback: use full text as matn
       closing_ar: null,
+      matn_ar_plain: plainArabic(textAr),
+      isnad_ar_plain: plainArabic(isnadAr),
+      split_method: isnadAr ? "regex" : "none",
+      split_confidence: splitConfidence(isnadAr ? "regex" : "none", isnadAr, textAr),
       narrator: extractNarrator(textEn),
       has_variants: false,
-      source_reference: collectionType === "compilation" ? extractSourceReferenceFromText(section) : null,
+      variant_of: null,
+      variant_suffix: null,
+      source_reference: sourceReference,
+      source_citations: parseSourceCitations(sourceReference),
       source_grade: null,
       grade_en: null,
       grade_ar: null,
+      grades: [],
+      grade_category: null,
       url_source: null,
     });
   }
@@ -792,7 +952,13 @@ function extractSourceReferenceFromText(text: string): string | null {
     return `[${bracketMatch[1]}]`;
   }
 
-  // Pattern 2: "related by X" or "reported by X"
+  // Pattern 2: "Agreed upon." or "[Muttafaqun 'alayh]"
+  const agreedMatch = text.match(/(?:^|[\[\s])(?:Agreed upon|Muttafaq(?:un)?\s+['‘’]?alayh(?:i)?)\s*[\].]/i);
+  if (agreedMatch) {
+    return "[Agreed upon]";
+  }
+
+  // Pattern 3: "related by X" or "reported by X"
   const relatedMatch = text.match(
     /(?:related|reported|narrated)\s+by\s+((?:al-)?Bukhari|Muslim|(?:at-)?Tirmidhi|Abu Dawud|(?:an-)?Nasa['']?i|Ibn Majah)/i
   );
@@ -800,7 +966,7 @@ function extractSourceReferenceFromText(text: string): string | null {
     return `[${relatedMatch[1]}]`;
   }
 
-  // Pattern 3: "hadeeth which was related by X"
+  // Pattern 4: "hadeeth which was related by X"
   const hadithMatch = text.match(
     /hadee?th\s+(?:which\s+was\s+)?(?:related|narrated)\s+by\s+((?:al-)?Bukhari|Muslim|(?:at-)?Tirmidhi)/i
   );
@@ -811,9 +977,107 @@ function extractSourceReferenceFromText(text: string): string | null {
   return null;
 }
 
+/** Source names in a source_reference, matched after lower-casing */
+const SOURCE_COLLECTION_ALIASES: [RegExp, CollectionId][] = [
+  [/^(al-)?bukhari$/, "bukhari"],
+  [/^muslim$/, "muslim"],
+  [/^(at-)?tirmidhi$/, "tirmidhi"],
+  [/^abu dawud$/, "abudawud"],
+  [/^(an-)?nasa'?i$/, "nasai"],
+  [/^ibn majah$/, "ibnmajah"],
+  [/^malik$/, "malik"],
+  [/^ahmad$/, "ahmad"],
+  [/^(ad-)?darimi$/, "darimi"],
+];
+
+/** "Agreed upon" / "muttafaqun 'alayh": reported by both al-Bukhari and Muslim */
+const AGREED_UPON = /^(agreed upon|muttafaq(un)? '?alayh(i)?)$/;
+
+/** Hadith permalink: "/muslim:2564c" or "https://sunnah.com/bukhari:1" */
+const HADITH_LINK = /\/([a-z0-9]+):(\d+[a-z]?)(?:$|[?#])/;
+
+/**
+ * Hadith numbers linked from a compilation container, in page order, as
+ * "<collection>:<number>" (links back to the compilation itself are skipped)
+ */
+function extractSourceLinks(container: Element, collectionId: CollectionId): string[] {
+  const links: string[] = [];
+  for (const link of container.querySelectorAll("a[href]")) {
+    const match = ((link as Element).getAttribute("href") || "").match(HADITH_LINK);
+    if (!match || match[1] === collectionId || !(match[1] in COLLECTION_NAMES)) continue;
+    const key = `${match[1]}:${match[2]}`;
+    if (!links.includes(key)) links.push(key);
+  }
+  return links;
+}
+
+/**
+ * Split a compilation source_reference into one citation per cited collection
+ *
+ * "[Agreed upon]" expands to al-Bukhari and Muslim. `links` ("muslim:2564c")
+ * supply hadith numbers; a linked hadith whose collection the reference does
+ * not name is still cited. Both al-Bukhari and Muslim cited means agreed upon.
+ */
+export function parseSourceCitations(sourceReference: string | null, links: string[] = []): SourceCitation[] {
+  const collections: CollectionId[] = [];
+  const names = (sourceReference ?? "").replace(/^\[|\]$/g, "").split(/\s*(?:,|&|\band\b)\s*/i);
+
+  for (const name of names) {
+    const key = name.toLowerCase().replace(/[’‘`ʼ]/g, "'").replace(/\s+/g, " ").trim();
+    if (!key) continue;
+    const cited: CollectionId[] = AGREED_UPON.test(key)
+      ? ["bukhari", "muslim"]
+      : SOURCE_COLLECTION_ALIASES.filter(([pattern]) => pattern.test(key)).map(([, id]) => id);
+    for (const id of cited) {
+      if (!collections.includes(id)) collections.push(id);
+    }
+  }
+
+  const linked = links.map((link) => link.split(":") as [CollectionId, string]);
+  const citations: SourceCitation[] = [];
+  const cite = (collection: CollectionId, hadithNumber: string | null) =>
+    citations.push({ collection, hadith_number: hadithNumber, agreed_upon: false });
+
+  for (const id of collections) {
+    const index = linked.findIndex(([collection]) => collection === id);
+    cite(id, index === -1 ? null : linked.splice(index, 1)[0][1]);
+  }
+  for (const [collection, hadithNumber] of linked) cite(collection, hadithNumber);
+
+  const cited = new Set(citations.map((c) => c.collection));
+  if (cited.has("bukhari") && cited.has("muslim")) {
+    for (const citation of citations) {
+      citation.agreed_upon = citation.collection === "bukhari" || citation.collection === "muslim";
+    }
+  }
+
+  return citations;
+}
+
+/** Trailing grader in parentheses: "Sahih (Darussalam)", "صحيح (الألباني)" */
+const GRADER_SUFFIX = /^(.*?)\s*\(([^()]+)\)$/;
+
+function splitGrader(gradeText: string | null): { grade: string | null; grader: string | null } {
+  if (!gradeText) return { grade: null, grader: null };
+  const match = gradeText.match(GRADER_SUFFIX);
+  if (!match) return { grade: gradeText, grader: null };
+  return { grade: match[1] || null, grader: match[2].trim() };
+}
+
+/**
+ * First grade cell of a row, skipping empty cells and the "Grade:" / "حكم:" labels
+ */
+function gradeCell(row: Element, selector: string, clean: (text: string) => string): string | null {
+  for (const td of row.querySelectorAll(selector)) {
+    const text = clean((td as Element).textContent || "").trim();
+    if (text.length > 1 && !/^(grade|حكم)\s*:?$/i.test(text)) return text;
+  }
+  return null;
+}
+
 /**
  * Extract grade information from .gradetable HTML
- * HTML pattern (consistent across all graded collections):
+ * HTML pattern (consistent across all graded collections), one row per grader:
  *   <table class=gradetable>
  *     <tr>
  *       <td class=english_grade><b>Grade</b>:</td>
@@ -822,49 +1086,52 @@ function extractSourceReferenceFromText(text: string): string | null {
  *       <td class=arabic_grade></td>
  *     </tr>
  *   </table>
+ *
+ * `grade_en`/`grade_ar` are the first row's full strings; `normalized` is the
+ * first grade that maps to a term of the taxonomy (src/grades.ts).
  */
-function extractGrades(container: Element): { grade_en: string | null; grade_ar: string | null; normalized: string | null } {
+export function extractGrades(container: Element): {
+  grade_en: string | null;
+  grade_ar: string | null;
+  normalized: string | null;
+  grades: HadithGrade[];
+} {
   const gradeTable = container.querySelector(".gradetable");
   if (!gradeTable) {
-    return { grade_en: null, grade_ar: null, normalized: null };
+    return { grade_en: null, grade_ar: null, normalized: null, grades: [] };
   }
 
   let gradeEn: string | null = null;
   let gradeAr: string | null = null;
-  let normalized: string | null = null;
-
-  // Get English grade from 2nd td.english_grade
-  const englishGradeTds = gradeTable.querySelectorAll("td.english_grade");
-  if (englishGradeTds.length >= 2) {
-    const gradeText = cleanText((englishGradeTds[1] as Element).textContent || "").trim();
-    if (gradeText && gradeText.length > 1) {
-      gradeEn = gradeText;
-      // Normalize: extract the grade word from text like "Sahih (Darussalam)"
-      const lower = gradeText.toLowerCase();
-      if (lower.includes("maudu") || lower.includes("fabricat")) {
-        normalized = "maudu";
-      } else if (lower.includes("daif") || lower.includes("da'if") || lower.includes("weak")) {
-        normalized = "daif";
-      } else if (lower.includes("hasan sahih") || lower.includes("sahih hasan")) {
-        normalized = "hasan sahih";
-      } else if (lower.includes("hasan")) {
-        normalized = "hasan";
-      } else if (lower.includes("sahih")) {
-        normalized = "sahih";
-      }
-    }
-  }
+  const grades: HadithGrade[] = [];
+
+  for (const row of gradeTable.querySelectorAll("tr")) {
+    const fullEn = gradeCell(row as Element, "td.english_grade", cleanText);
+    const fullAr = gradeCell(row as Element, "td.arabic_grade", cleanArabicText);
+    if (!fullEn && !fullAr) continue;
 
-  // Get Arabic grade from 2nd td.arabic_grade
-  const arabicGradeTds = gradeTable.querySelectorAll("td.arabic_grade");
-  if (arabicGradeTds.length >= 2) {
-    const gradeText = cleanArabicText((arabicGradeTds[1] as Element).textContent || "").trim();
-    if (gradeText && gradeText.length > 1) {
-      gradeAr = gradeText;
+    if (grades.length === 0) {
+      gradeEn = fullEn;
+      gradeAr = fullAr;
     }
+
+    // The grader is usually only named in English; the Arabic name is a fallback
+    const en = splitGrader(fullEn);
+    const ar = splitGrader(fullAr);
+    const graded = classifyGrade(en.grade, ar.grade);
+    grades.push({
+      grader: en.grader ?? ar.grader,
+      grade_en: en.grade,
+      grade_ar: ar.grade,
+      normalized: graded?.term ?? null,
+      category: graded?.category ?? null,
+      strength: graded?.strength ?? null,
+      modifiers: graded?.modifiers ?? [],
+    });
   }
 
-  return { grade_en: gradeEn, grade_ar: gradeAr, normalized };
+  const normalized = grades.find((g) => g.normalized)?.normalized ?? null;
+  return { grade_en: gradeEn, grade_ar: gradeAr, normalized, grades };
 }
 
 /**
@@ -877,10 +1144,8 @@ function extractSourceGrade(container: Element): string | null {
 
   const gradeEl = container.querySelector(".grade, .hadith_grade");
   if (gradeEl) {
-    const text = gradeEl.textContent?.toLowerCase() || "";
-    if (text.includes("sahih")) return "sahih";
-    if (text.includes("hasan")) return "hasan";
-    if (text.includes("daif") || text.includes("da'if") || text.includes("weak")) return "daif";
+    const graded = classifyGrade(gradeEl.textContent || "");
+    if (graded) return graded.term;
   }
 
   // Fallback: Check text
@@ -894,9 +1159,8 @@ function extractSourceGrade(container: Element): string | null {
   for (const pattern of patterns) {
     const match = containerText.match(pattern);
     if (match) {
-      const grade = match[1].toLowerCase();
-      if (grade === "weak" || grade.includes("daif") || grade.includes("da'if")) return "daif";
-      return grade;
+      const graded = classifyGrade(match[1]);
+      if (graded) return graded.term;
     }
   }
 
@@ -911,7 +1175,7 @@ function extractSourceGrade(container: Element): string | null {
  * - "It is narrated on the authority of Abu Huraira that..." -> "Abu Huraira"
  * - "'A'isha (Allah be pleased with her) said:" -> "A'isha"
  */
-function extractNarratorFromNarrated(text: string): string | null {
+export function extractNarratorFromNarrated(text: string): string | null {
   if (!text || text.length < 3) return null;
 
   // Clean the text
@@ -1378,7 +1642,9 @@ function startsWithIsnadPattern(text: string): boolean {
  * Only activates if text starts with a narration verb.
  * Returns null if no clear split point is found.
  */
-function splitIsnadFromMatn(text: string): { isnad: string; matn: string } | null {
+export function splitIsnadFromMatn(
+  text: string,
+): { isnad: string; matn: string; method: "heuristic_qala" | "heuristic_anna" } | null {
   if (!text || !startsWithIsnadPattern(text)) return null;
 
   // Normalize to NFC for consistent diacritics ordering
@@ -1440,11 +1706,11 @@ function splitIsnadFromMatn(text: string): { isnad: string; matn: string } | nul
 
   // Pick the earliest transition point between the two strategies
   let splitIndex: number | null = null;
+  let method: "heuristic_qala" | "heuristic_anna" = "heuristic_qala";
 
-  if (annaMatch?.index != null && bestSplit != null) {
-    splitIndex = Math.min(annaMatch.index, bestSplit);
-  } else if (annaMatch?.index != null) {
+  if (annaMatch?.index != null && (bestSplit == null || annaMatch.index < bestSplit)) {
     splitIndex = annaMatch.index;
+    method = "heuristic_anna";
   } else if (bestSplit != null) {
     splitIndex = bestSplit;
   }
@@ -1459,7 +1725,7 @@ function splitIsnadFromMatn(text: string): { isnad: string; matn: string } | nul
   if (isnad.length < 5 || matn.length < 5) return null;
   if (isnad.length > normalized.length * 0.85) return null;
 
-  return { isnad, matn };
+  return { isnad, matn, method };
 }
 
 /**
@@ -1483,17 +1749,30 @@ function extractIsnadAr(text: string): string | null {
 }
 
 /**
- * Clean Arabic text - removes invisible Unicode characters from sunnah.com HTML
+ * Confidence in an isnad/matn split by method. The DOM spans are the site's
+ * own split; a span missing leaves the other possibly holding both parts.
+ * A regex isnad leaves it at the start of matn_ar.
+ */
+const SPLIT_CONFIDENCE: Record<SplitMethod, number> = {
+  dom: 0.95,
+  heuristic_anna: 0.85,
+  heuristic_qala: 0.7,
+  regex: 0.3,
+  none: 0,
+};
+
+const SPLIT_CONFIDENCE_PARTIAL_DOM = 0.6;
+
+function splitConfidence(method: SplitMethod, isnadAr: string | null, matnAr: string | null): number {
+  if (method === "dom" && (!isnadAr || !matnAr)) return SPLIT_CONFIDENCE_PARTIAL_DOM;
+  return SPLIT_CONFIDENCE[method];
+}
+
+/**
+ * Clean Arabic text from sunnah.com HTML (the display profile of src/arabic.ts)
  */
 function cleanArabicText(text: string): string {
-  return text
-    // Remove invisible Unicode characters (RLM, LRM, ZWSP, ZWJ, ZWNJ, BOM)
-    .replace(/[\u200F\u200E\u200B\u200C\u200D\uFEFF]/g, "")
-    // Convert NBSP to regular space
-    .replace(/\u00A0/g, " ")
-    // Collapse whitespace
-    .replace(/\s+/g, " ")
-    .trim();
+  return normalizeArabic(text, "display");
 }
 
 /**
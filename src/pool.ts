@@ -0,0 +1,27 @@
+/**
+ * Bounded-concurrency worker pool
+ */
+
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight.
+ * Results keep the order of `items`, regardless of completion order.
+ */
+export async function runPool<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  const workers = Array.from({ length: workerCount }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,336 @@
+/**
+ * Quranic quotations in hadith text (`ohd quran`)
+ *
+ * The Quran text is Tanzil's Simple Clean edition ("surah|ayah|text" per
+ * line), committed verbatim with its license block as
+ * resources/quran-simple-clean.txt. Each matn_ar is cut into words
+ * normalized like the Quran (normalizeArabic), and runs of at least
+ * MIN_WORDS consecutive words found in the Quran, within one surah, are
+ * quotations. A run is kept when it is:
+ *   brackets  inside ﴿ ﴾ or { }
+ *   formula   introduced by قال الله, قوله تعالى, قرأ, تلا, نزلت, أنزل الله
+ *             within INTRODUCER_WORDS words before it
+ *   text      neither, but at least MIN_UNMARKED_WORDS long
+ * A phrase found in several places (Ar-Rahman's refrain) is tagged with its
+ * first occurrence.
+ *
+ * matn_en is not matched against a translation: the sunnah.com translators
+ * give the verse number after the quotation ("(V.2:255)", "(2.255)"), and
+ * those references are tagged, with the quoted passage before them.
+ *
+ * Spans are [start, end) offsets in JavaScript string indices (UTF-16 code
+ * units) of the stored field. The citations are written to
+ * data/quran-citations.json; the SQLite build loads them into quran_citations.
+ */
+
+import type { CollectionId, ScrapedHadith } from "./types.ts";
+import { normalizeArabic } from "./arabic.ts";
+import { loadCollectionHadiths } from "./state.ts";
+
+const DATA_DIR = "./data";
+/** Tanzil Quran Text (Simple Clean), "surah|ayah|text"; CC BY 3.0, to be copied verbatim */
+export const QURAN_PATH = "./resources/quran-simple-clean.txt";
+export const QURAN_CITATIONS_PATH = `${DATA_DIR}/quran-citations.json`;
+
+export const QURAN_SOURCE = "Tanzil Quran Text (Simple Clean), https://tanzil.net";
+
+/** Ayahs in each surah, 1-114 */
+export const AYAH_COUNTS = [
+  7, 286, 200, 176, 120, 165, 206, 75, 129, 109, 123, 111, 43, 52, 99, 128, 111, 110, 98, 135, 112, 78, 118, 64, 77,
+  227, 93, 88, 69, 60, 34, 30, 73, 54, 45, 83, 182, 88, 75, 85, 54, 53, 89, 59, 37, 35, 38, 29, 18, 45, 60, 49, 62, 55,
+  78, 96, 29, 22, 24, 13, 14, 11, 11, 18, 12, 12, 30, 52, 52, 44, 28, 28, 20, 56, 40, 31, 50, 40, 46, 42, 29, 19, 36,
+  25, 22, 17, 19, 26, 30, 20, 15, 21, 11, 8, 8, 19, 5, 8, 8, 11, 11, 8, 3, 9, 5, 4, 7, 3, 6, 3, 5, 4, 5, 6,
+];
+
+/** Shortest quotation, and the words of the index keys */
+const MIN_WORDS = 3;
+/** Shortest quotation that is neither bracketed nor introduced */
+const MIN_UNMARKED_WORDS = 7;
+/** How far before a quotation its introducer may be ("قال الله عز وجل في كتابه") */
+const INTRODUCER_WORDS = 6;
+/** Longest quoted passage looked for before an English verse reference */
+const MAX_QUOTE_CHARS = 2000;
+
+/** Ornate parentheses ﴾ ﴿ (either way round) and braces */
+const BRACKETED = /[\uFD3E\uFD3F{][^\uFD3E\uFD3F{}]*[\uFD3E\uFD3F}]/g;
+/** Introducers, in normalized words */
+const INTRODUCER = /(^| )([وف]?(قال|يقول) الله|قول الله|[وف]?قوله|(ثم )?[وف]?(قرا|تلا|نزلت)|[وف]?انزل الله)( |$)/;
+/** "(V.2:255)", "(2.255)", "(3:190-191)" */
+const VERSE_REFERENCE = /\((?:V\.\s*)?(\d{1,3})[.:]\s?(\d{1,3})(?:\s*[-–]\s*(\d{1,3}))?\)/g;
+/** Closing quote → opening quote */
+const QUOTES: Record<string, string> = { "”": "“", "’": "‘", '"': '"', "'": "'" };
+
+export interface Ayah {
+  surah: number;
+  ayah: number;
+  text: string;
+}
+
+export type CitationMethod = "brackets" | "formula" | "text" | "reference";
+
+export interface QuranCitation {
+  field: "matn_ar" | "matn_en";
+  start: number;
+  end: number;
+  surah: number;
+  ayah_start: number;
+  ayah_end: number;
+  method: CitationMethod;
+  /** Words matched against the Quran text; null for English references */
+  words: number | null;
+}
+
+export interface HadithQuranCitations {
+  /** "collection:hadith_number" */
+  id: string;
+  collection: CollectionId;
+  hadith_number: string;
+  citations: QuranCitation[];
+}
+
+export interface QuranCitationSet {
+  generated_at: string;
+  source: string;
+  hadiths: HadithQuranCitations[];
+}
+
+/** Normalized words of the Quran, with trigram positions */
+export interface QuranIndex {
+  words: string[];
+  surah: Uint8Array;
+  ayah: Uint16Array;
+  trigrams: Map<string, number[]>;
+}
+
+interface Word {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse "surah|ayah|text" lines; Tanzil's trailing "#" license lines are skipped
+ */
+export function parseQuranText(text: string): Ayah[] {
+  const ayahs: Ayah[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim() || line.startsWith("#")) continue;
+    const [surah, ayah, ...rest] = line.split("|");
+    const s = Number(surah), a = Number(ayah);
+    if (!(s >= 1 && s <= 114 && a >= 1 && a <= AYAH_COUNTS[s - 1]) || rest.length === 0) {
+      throw new Error(`Invalid Quran text line: ${line.slice(0, 80)}`);
+    }
+    ayahs.push({ surah: s, ayah: a, text: rest.join("|").trim() });
+  }
+  return ayahs;
+}
+
+/**
+ * Words of Arabic text, normalized, with their offsets in the text. A ligature
+ * (ﷺ) gives several words with the same offsets.
+ */
+export function arabicWords(text: string): Word[] {
+  const words: Word[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{M}]+/gu)) {
+    for (const word of normalizeArabic(match[0]).split(" ")) {
+      if (word) words.push({ word, start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return words;
+}
+
+export function indexQuran(ayahs: Ayah[]): QuranIndex {
+  const words: string[] = [];
+  const surahs: number[] = [];
+  const numbers: number[] = [];
+  for (const { surah, ayah, text } of ayahs) {
+    for (const { word } of arabicWords(text)) {
+      words.push(word);
+      surahs.push(surah);
+      numbers.push(ayah);
+    }
+  }
+
+  const trigrams = new Map<string, number[]>();
+  for (let p = 0; p + MIN_WORDS <= words.length; p++) {
+    if (surahs[p] !== surahs[p + MIN_WORDS - 1]) continue;
+    const key = words.slice(p, p + MIN_WORDS).join(" ");
+    const positions = trigrams.get(key);
+    if (positions) positions.push(p);
+    else trigrams.set(key, [p]);
+  }
+  return { words, surah: Uint8Array.from(surahs), ayah: Uint16Array.from(numbers), trigrams };
+}
+
+/** Longest run of words from words[i] found in the Quran; earliest on a tie */
+function longestMatch(index: QuranIndex, words: string[], i: number): { at: number; length: number } | null {
+  const positions = index.trigrams.get(words.slice(i, i + MIN_WORDS).join(" "));
+  if (!positions) return null;
+  let best = { at: positions[0], length: 0 };
+  for (const p of positions) {
+    let length = MIN_WORDS;
+    while (
+      i + length < words.length && p + length < index.words.length &&
+      index.surah[p + length] === index.surah[p] && index.words[p + length] === words[i + length]
+    ) length++;
+    if (length > best.length) best = { at: p, length };
+  }
+  return best;
+}
+
+/**
+ * Quranic quotations in an Arabic text
+ */
+export function findArabicQuotations(index: QuranIndex, text: string | null): QuranCitation[] {
+  if (!text) return [];
+  const tokens = arabicWords(text);
+  const words = tokens.map((t) => t.word);
+  const brackets = [...text.matchAll(BRACKETED)].map((m) => [m.index, m.index + m[0].length]);
+
+  const citations: QuranCitation[] = [];
+  for (let i = 0; i + MIN_WORDS <= words.length;) {
+    const match = longestMatch(index, words, i);
+    if (!match) {
+      i++;
+      continue;
+    }
+
+    const first = tokens[i], last = tokens[i + match.length - 1];
+    const method: CitationMethod = brackets.some(([start, end]) => first.start > start && first.start < end)
+      ? "brackets"
+      : INTRODUCER.test(words.slice(Math.max(0, i - INTRODUCER_WORDS), i).join(" "))
+      ? "formula"
+      : "text";
+    if (method === "text" && match.length < MIN_UNMARKED_WORDS) {
+      i++;
+      continue;
+    }
+
+    citations.push({
+      field: "matn_ar",
+      start: first.start,
+      end: last.end,
+      surah: index.surah[match.at],
+      ayah_start: index.ayah[match.at],
+      ayah_end: index.ayah[match.at + match.length - 1],
+      method,
+      words: match.length,
+    });
+    i += match.length;
+  }
+  return citations;
+}
+
+/**
+ * Verse references in an English text, spanning the quoted passage before
+ * them when there is one
+ */
+export function findEnglishReferences(text: string | null): QuranCitation[] {
+  if (!text) return [];
+  const citations: QuranCitation[] = [];
+  for (const match of text.matchAll(VERSE_REFERENCE)) {
+    const surah = Number(match[1]), ayahStart = Number(match[2]);
+    const ayahEnd = match[3] ? Number(match[3]) : ayahStart;
+    if (surah < 1 || surah > 114 || ayahStart < 1 || ayahEnd < ayahStart || ayahEnd > AYAH_COUNTS[surah - 1]) continue;
+
+    let start = match.index;
+    // The closing quote right before the reference, and its opening quote
+    let close = start - 1;
+    while (close >= 0 && /[\s.,;:!?]/.test(text[close])) close--;
+    const open = QUOTES[text[close]];
+    if (open) {
+      for (let j = close - 1; j >= Math.max(0, close - MAX_QUOTE_CHARS); j--) {
+        if (text[j] === open && (j === 0 || /[\s:,(\[]/.test(text[j - 1])) && !/\s/.test(text[j + 1] ?? " ")) {
+          start = j;
+          break;
+        }
+      }
+    }
+
+    citations.push({
+      field: "matn_en",
+      start,
+      end: match.index + match[0].length,
+      surah,
+      ayah_start: ayahStart,
+      ayah_end: ayahEnd,
+      method: "reference",
+      words: null,
+    });
+  }
+  return citations;
+}
+
+/**
+ * Quranic quotations in matn_ar and verse references in matn_en
+ */
+export function findQuranCitations(index: QuranIndex, hadith: Pick<ScrapedHadith, "matn_ar" | "matn_en">): QuranCitation[] {
+  return [...findArabicQuotations(index, hadith.matn_ar), ...findEnglishReferences(hadith.matn_en)];
+}
+
+/**
+ * Read the bundled Quran text and check it has every ayah
+ */
+export async function loadQuran(path = QURAN_PATH): Promise<Ayah[]> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    throw new Error(`${path} not found: it is Tanzil's Simple Clean text with its license block (${QURAN_SOURCE})`);
+  }
+
+  const ayahs = parseQuranText(text);
+  const expected = AYAH_COUNTS.reduce((sum, n) => sum + n, 0);
+  if (ayahs.length !== expected) throw new Error(`${path} has ${ayahs.length} ayahs, expected ${expected}`);
+  return ayahs;
+}
+
+/**
+ * Find the Quranic citations of every scraped collection
+ */
+export async function buildQuranCitations(dir = `${DATA_DIR}/collections`): Promise<QuranCitationSet> {
+  const index = indexQuran(await loadQuran());
+  const hadiths: HadithQuranCitations[] = [];
+
+  for (const { collection, hadiths: collectionHadiths } of await loadCollectionHadiths(dir)) {
+    for (const h of collectionHadiths) {
+      const citations = findQuranCitations(index, h);
+      if (citations.length === 0) continue;
+      hadiths.push({ id: `${collection}:${h.hadith_number}`, collection, hadith_number: h.hadith_number, citations });
+    }
+  }
+
+  return { generated_at: new Date().toISOString(), source: QURAN_SOURCE, hadiths };
+}
+
+/**
+ * Read data/quran-citations.json; null when `ohd quran` has not been run
+ */
+export async function loadQuranCitations(path = QURAN_CITATIONS_PATH): Promise<QuranCitationSet | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+/**
+ * Find the citations in data/collections/ and write data/quran-citations.json
+ */
+export async function writeQuranCitations(): Promise<{ output: string; hadiths: number; citations: number; ayahs: number }> {
+  const set = await buildQuranCitations();
+  await Deno.writeTextFile(QURAN_CITATIONS_PATH, JSON.stringify(set, null, 2));
+
+  const citations = set.hadiths.flatMap((h) => h.citations);
+  const ayahs = new Set(citations.flatMap((c) => {
+    const keys: string[] = [];
+    for (let a = c.ayah_start; a <= c.ayah_end; a++) keys.push(`${c.surah}:${a}`);
+    return keys;
+  })).size;
+  console.log(`\nQuran citations: ${citations.length} in ${set.hadiths.length} hadiths (${ayahs} distinct ayahs)`);
+  console.log(`  Written to ${QURAN_CITATIONS_PATH}`);
+
+  return { output: QURAN_CITATIONS_PATH, hadiths: set.hadiths.length, citations: citations.length, ayahs };
+}
@@ -0,0 +1,150 @@
+/**
+ * Standalone re-scrape of a single collection (`ohd rescrape <collection>`).
+ * Bypasses the state system to allow safe parallel execution.
+ *
+ * --from-cache re-parses the stored HTML snapshots (data/html/) with no network access.
+ * --concurrency sets how many books are in flight at once (default SCRAPE_CONCURRENCY);
+ * the shared HTTP client still spaces requests --rate-limit-ms apart (default RATE_LIMIT_MS).
+ */
+
+import {
+  BASE_URL,
+  COLLECTIONS,
+  SCRAPE_CONCURRENCY,
+  type CollectionId,
+  type ScrapedBook,
+  type ScrapedCollection,
+  type ScrapeOptions,
+} from "./types.ts";
+import { parseBookPage, parseFlatCollectionPage } from "./parser.ts";
+import { fetchHtml, summarizeRequestMetrics } from "./http.ts";
+import { runPool } from "./pool.ts";
+import { pageSource } from "./snapshot.ts";
+
+/**
+ * Re-scrape one collection into data/books/ and data/collections/.
+ * Books that fail are logged and left out; a flat collection that fails throws.
+ */
+export async function rescrapeCollection(
+  collectionId: CollectionId,
+  options: ScrapeOptions = {},
+): Promise<ScrapedCollection> {
+  const config = COLLECTIONS[collectionId];
+  const fromCache = options.fromCache ?? false;
+  const concurrency = options.concurrency ?? SCRAPE_CONCURRENCY;
+
+  const booksDir = `data/books/${collectionId}`;
+  const collectionsDir = `data/collections`;
+
+  await Deno.mkdir(booksDir, { recursive: true });
+  await Deno.mkdir(collectionsDir, { recursive: true });
+
+  console.log(
+    `\n=== ${fromCache ? "Re-parsing from cache" : "Re-scraping"}: ${config.name_en} (${collectionId}) ===\n`,
+  );
+
+  let result: ScrapedCollection;
+
+  if (config.books === null) {
+    // Flat collection
+    const url = `${BASE_URL}/${config.slug}`;
+    console.log(`Fetching flat collection: ${url}`);
+    const html = await fetchHtml(url, { fromCache });
+    const hadiths = parseFlatCollectionPage(html, config.id);
+    console.log(`  Parsed ${hadiths.length} hadiths`);
+
+    result = {
+      collection: {
+        id: config.id,
+        name_en: config.name_en,
+        name_ar: config.name_ar,
+        author_en: config.author_en,
+        author_ar: config.author_ar,
+        type: config.type,
+        scraped_at: new Date().toISOString(),
+      },
+      books: null,
+      hadiths,
+      stats: {
+        total_books: 0,
+        total_chapters: 0,
+        total_hadiths: hadiths.length,
+      },
+      source_page: await pageSource(url, html),
+    };
+  } else {
+    // Book-based collection, fetched by a bounded worker pool
+    const totalBooks = config.books.length;
+
+    const results = await runPool(config.books, concurrency, async (book, i) => {
+      const url = `${BASE_URL}/${config.slug}/${book}`;
+
+      console.log(`[${i + 1}/${totalBooks}] Fetching book ${book}...`);
+
+      try {
+        const html = await fetchHtml(url, { fromCache });
+        const parsed = parseBookPage(html, config.id, config.type, book);
+
+        const scrapedBook: ScrapedBook = {
+          book_number: typeof book === "number" ? book : 0,
+          book_key: typeof book === "string" ? book : null,
+          name_en: parsed.book_name_en,
+          name_ar: parsed.book_name_ar,
+          chapters: parsed.chapters,
+          hadiths: parsed.hadiths,
+          source_page: await pageSource(url, html),
+        };
+
+        const bookFile = `${booksDir}/${book}.json`;
+        await Deno.writeTextFile(bookFile, JSON.stringify(scrapedBook, null, 2));
+
+        console.log(
+          `  done book ${book}: ${parsed.hadiths.length} hadiths, ${parsed.chapters.length} chapters`,
+        );
+        return scrapedBook;
+      } catch (e) {
+        console.error(
+          `  FAILED book ${book}: ${e instanceof Error ? e.message : e}`,
+        );
+        return null;
+      }
+    });
+
+    const books = results.filter((b): b is ScrapedBook => b !== null);
+
+    let totalChapters = 0, totalHadiths = 0;
+    for (const b of books) {
+      totalChapters += b.chapters.length;
+      totalHadiths += b.hadiths.length;
+    }
+
+    result = {
+      collection: {
+        id: config.id,
+        name_en: config.name_en,
+        name_ar: config.name_ar,
+        author_en: config.author_en,
+        author_ar: config.author_ar,
+        type: config.type,
+        scraped_at: new Date().toISOString(),
+      },
+      books,
+      stats: {
+        total_books: books.length,
+        total_chapters: totalChapters,
+        total_hadiths: totalHadiths,
+      },
+    };
+  }
+
+  const collectionFile = `${collectionsDir}/${collectionId}.json`;
+  await Deno.writeTextFile(collectionFile, JSON.stringify(result, null, 2));
+
+  console.log(`\n=== ${config.name_en} COMPLETE ===`);
+  console.log(`  Books: ${result.stats.total_books}`);
+  console.log(`  Chapters: ${result.stats.total_chapters}`);
+  console.log(`  Hadiths: ${result.stats.total_hadiths}`);
+  console.log(`  HTTP: ${summarizeRequestMetrics()}`);
+
+  return result;
+}
@@ -1,55 +1,51 @@
 /**
- * Partial scrape test - scrapes first N books of a collection
- * Usage: deno run --allow-net --allow-read --allow-write src/test-partial.ts <collection> [max_books]
+ * Partial scrape test - scrapes first N books of a collection (`ohd sample <collection> [--books N]`)
  */
 
-import { COLLECTIONS, type CollectionId } from "./types.ts";
+import { BASE_URL, COLLECTIONS, type CollectionId } from "./types.ts";
 import { parseBookPage, parseFlatCollectionPage } from "./parser.ts";
+import { fetchHtml } from "./http.ts";
 import { ensureDir } from "@std/fs";
 
-const DELAY_MS = 1500;
-const MAX_RETRIES = 3;
-
-async function fetchWithRetry(url: string): Promise<string> {
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": "Mozilla/5.0 (compatible; HadathaniBot/1.0; educational)",
-        },
-      });
-      if (!response.ok) throw new Error(`HTTP ${response.status}`);
-      return await response.text();
-    } catch (error) {
-      if (attempt === MAX_RETRIES) throw error;
-      await new Promise((r) => setTimeout(r, 1000 * attempt));
-    }
-  }
-  throw new Error("Failed after retries");
+export interface SampleResult {
+  collection: CollectionId;
+  books_scraped: number;
+  total_hadiths: number;
+  total_chapters: number;
+  hadiths_with_narrator: number;
+  hadiths_with_isnad: number;
+  errors: string[];
 }
 
-async function testCollection(collectionId: CollectionId, maxBooks: number) {
+/**
+ * Scrape the first maxBooks books of a collection and report extraction coverage
+ */
+export async function sampleCollection(
+  collectionId: CollectionId,
+  maxBooks: number,
+  options: { fromCache?: boolean } = {},
+): Promise<SampleResult> {
   const config = COLLECTIONS[collectionId];
   console.log(`\n🔍 Testing ${config.name_en} (max ${maxBooks} books)...\n`);
 
-  const results = {
+  const results: SampleResult = {
     collection: collectionId,
     books_scraped: 0,
     total_hadiths: 0,
     total_chapters: 0,
     hadiths_with_narrator: 0,
     hadiths_with_isnad: 0,
-    errors: [] as string[],
+    errors: [],
   };
 
   await ensureDir(`./data/books/${collectionId}`);
 
   // Flat collection (nawawi40) - books is null
   if (config.books === null) {
-    const url = `https://sunnah.com/${collectionId}`;
+    const url = `${BASE_URL}/${collectionId}`;
     console.log(`  Fetching ${url}...`);
     try {
-      const html = await fetchWithRetry(url);
+      const html = await fetchHtml(url, options);
       const hadiths = parseFlatCollectionPage(html, collectionId);
       results.total_hadiths = hadiths.length;
       results.hadiths_with_narrator = hadiths.filter((h) => h.narrator).length;
@@ -72,11 +68,11 @@ async function testCollection(collectionId: CollectionId, maxBooks: number) {
 
     for (let i = 0; i < booksToScrape; i++) {
       const bookKey = config.books[i];
-      const url = `https://sunnah.com/${collectionId}/${bookKey}`;
+      const url = `${BASE_URL}/${collectionId}/${bookKey}`;
       console.log(`  [${i + 1}/${booksToScrape}] Fetching ${url}...`);
 
       try {
-        const html = await fetchWithRetry(url);
+        const html = await fetchHtml(url, options);
         const parsed = parseBookPage(html, collectionId, config.type, bookKey);
 
         results.books_scraped++;
@@ -104,11 +100,6 @@ async function testCollection(collectionId: CollectionId, maxBooks: number) {
         results.errors.push(`Book ${bookKey}: ${error}`);
         console.log(`  ❌ Book ${bookKey} error: ${error}`);
       }
-
-      // Rate limiting
-      if (i < booksToScrape - 1) {
-        await new Promise((r) => setTimeout(r, DELAY_MS));
-      }
     }
   }
 
@@ -125,17 +116,3 @@ async function testCollection(collectionId: CollectionId, maxBooks: number) {
 
   return results;
 }
-
-// Main
-const collectionId = Deno.args[0] as CollectionId;
-const maxBooks = parseInt(Deno.args[1] || "3");
-
-if (!collectionId || !COLLECTIONS[collectionId]) {
-  console.error("Usage: deno run --allow-net --allow-read --allow-write src/test-partial.ts <collection> [max_books]");
-  console.error("Collections: bukhari, muslim, malik, nawawi40, riyadussalihin");
-  Deno.exit(1);
-}
-
-const result = await testCollection(collectionId, maxBooks);
-console.log("\n✅ Test complete");
-Deno.exit(result.errors.length > 0 ? 1 : 0);
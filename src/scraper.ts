@@ -5,16 +5,19 @@
 import {
   BASE_URL,
   COLLECTIONS,
-  MAX_RETRIES,
-  RATE_LIMIT_MS,
-  RETRY_DELAY_MS,
+  SCRAPE_CONCURRENCY,
   type CollectionConfig,
   type CollectionId,
   type ScrapedBook,
   type ScrapedCollection,
+  type ScrapeOptions,
+  type ScrapeSummary,
   type ScraperState,
 } from "./types.ts";
 import { parseBookPage, parseFlatCollectionPage } from "./parser.ts";
+import { fetchHtml, summarizeRequestMetrics } from "./http.ts";
+import { runPool } from "./pool.ts";
+import { pageSource } from "./snapshot.ts";
 import {
   initDataDir,
   loadBookData,
@@ -24,6 +27,7 @@ import {
   markCollectionCompleted,
   printStateSummary,
   recordError,
+  removeBookData,
   saveBookData,
   saveCollectionData,
   saveState,
@@ -31,59 +35,32 @@ import {
 } from "./state.ts";
 
 /**
- * Sleep for a given number of milliseconds
+ * Get page HTML through the shared HTTP client (or the snapshot store with --from-cache),
+ * recording a fetch error in state on failure
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-/**
- * Fetch a URL with retries
- */
-async function fetchWithRetry(
+async function fetchPage(
   url: string,
   state: ScraperState,
   collectionId: CollectionId,
   book: number | string | null,
+  options: ScrapeOptions,
 ): Promise<string | null> {
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      log.info(`Fetching ${url} (attempt ${attempt}/${MAX_RETRIES})`);
-
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": "HadathaniScraper/1.0 (Educational hadith app)",
-          "Accept": "text/html,application/xhtml+xml",
-          "Accept-Language": "en-US,en;q=0.9,ar;q=0.8",
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      return await response.text();
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      log.warn(`Attempt ${attempt} failed: ${message}`);
-
-      if (attempt === MAX_RETRIES) {
-        await recordError(state, {
-          collection: collectionId,
-          book,
-          hadith_number: null,
-          error_type: "fetch",
-          message,
-          url,
-        });
-        return null;
-      }
-
-      await sleep(RETRY_DELAY_MS);
-    }
-  }
+  try {
+    return await fetchHtml(url, { fromCache: options.fromCache });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(message);
 
-  return null;
+    await recordError(state, {
+      collection: collectionId,
+      book,
+      hadith_number: null,
+      error_type: "fetch",
+      message,
+      url,
+    });
+    return null;
+  }
 }
 
 /**
@@ -93,16 +70,19 @@ async function scrapeBook(
   config: CollectionConfig,
   book: number | string,
   state: ScraperState,
+  options: ScrapeOptions,
 ): Promise<ScrapedBook | null> {
-  // Check if already scraped (from incremental saves)
-  const existing = await loadBookData(config.id, book);
-  if (existing) {
-    log.info(`Book ${book} already scraped, loading from cache`);
-    return existing as ScrapedBook;
+  // Check if already scraped (from incremental saves); re-parsing from cache always rebuilds
+  if (!options.fromCache) {
+    const existing = await loadBookData(config.id, book);
+    if (existing) {
+      log.info(`Book ${book} already scraped, loading from cache`);
+      return existing as ScrapedBook;
+    }
   }
 
   const url = `${BASE_URL}/${config.slug}/${book}`;
-  const html = await fetchWithRetry(url, state, config.id, book);
+  const html = await fetchPage(url, state, config.id, book, options);
 
   if (!html) {
     return null;
@@ -118,6 +98,7 @@ async function scrapeBook(
       name_ar: parsed.book_name_ar,
       chapters: parsed.chapters,
       hadiths: parsed.hadiths,
+      source_page: await pageSource(url, html),
     };
 
     // Save incrementally
@@ -151,9 +132,10 @@ async function scrapeBook(
 async function scrapeFlatCollection(
   config: CollectionConfig,
   state: ScraperState,
+  options: ScrapeOptions,
 ): Promise<ScrapedCollection | null> {
   const url = `${BASE_URL}/${config.slug}`;
-  const html = await fetchWithRetry(url, state, config.id, null);
+  const html = await fetchPage(url, state, config.id, null, options);
 
   if (!html) {
     return null;
@@ -181,6 +163,7 @@ async function scrapeFlatCollection(
         total_chapters: 0,
         total_hadiths: hadiths.length,
       },
+      source_page: await pageSource(url, html),
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -205,42 +188,38 @@ async function scrapeFlatCollection(
 async function scrapeCollectionWithBooks(
   config: CollectionConfig,
   state: ScraperState,
+  options: ScrapeOptions,
 ): Promise<ScrapedCollection | null> {
   if (!config.books) {
     throw new Error(`Collection ${config.id} has no books defined`);
   }
 
-  const books: ScrapedBook[] = [];
   const totalBooks = config.books.length;
+  const concurrency = options.concurrency ?? SCRAPE_CONCURRENCY;
+  let started = 0;
 
-  for (let i = 0; i < config.books.length; i++) {
-    const book = config.books[i];
-
+  // Books are fetched by a bounded worker pool; the HTTP client's per-host
+  // token bucket keeps the overall request rate polite regardless of concurrency
+  const results = await runPool(config.books, concurrency, async (book) => {
     // Skip if already completed
-    if (state.completed_books.includes(book)) {
+    if (!options.fromCache && state.completed_books.includes(book)) {
       log.info(`Skipping book ${book} (already completed)`);
       // Load from cache
-      const cached = await loadBookData(config.id, book);
-      if (cached) {
-        books.push(cached as ScrapedBook);
-      }
-      continue;
+      return await loadBookData(config.id, book) as ScrapedBook | null;
     }
 
-    log.progress(i + 1, totalBooks, `${config.name_en} - Book ${book}`);
+    log.progress(++started, totalBooks, `${config.name_en} - Book ${book}`);
 
-    const scrapedBook = await scrapeBook(config, book, state);
+    const scrapedBook = await scrapeBook(config, book, state, options);
 
     if (scrapedBook) {
-      books.push(scrapedBook);
       await markBookCompleted(state, book);
     }
+    return scrapedBook;
+  });
 
-    // Rate limiting
-    if (i < config.books.length - 1) {
-      await sleep(RATE_LIMIT_MS);
-    }
-  }
+  // Keep book order from the config, whatever order the workers finished in
+  const books = results.filter((book): book is ScrapedBook => book !== null);
 
   // Calculate stats
   let totalChapters = 0;
@@ -275,6 +254,7 @@ async function scrapeCollectionWithBooks(
  */
 export async function scrapeCollection(
   collectionId: CollectionId,
+  options: ScrapeOptions = {},
 ): Promise<ScrapedCollection | null> {
   const config = COLLECTIONS[collectionId];
   if (!config) {
@@ -285,23 +265,23 @@ export async function scrapeCollection(
   await initDataDir();
   const state = await loadState();
 
-  // Check if already completed
-  if (state.completed_collections.includes(collectionId)) {
+  // Check if already completed (replaying snapshots always re-parses)
+  if (!options.fromCache && state.completed_collections.includes(collectionId)) {
     log.info(`Collection ${collectionId} already completed`);
     return null;
   }
 
-  log.info(`Starting scrape of ${config.name_en}`);
+  log.info(`Starting ${options.fromCache ? "offline re-parse" : "scrape"} of ${config.name_en}`);
   await startCollection(state, collectionId);
 
   let result: ScrapedCollection | null;
 
   if (config.books === null) {
     // Flat collection (nawawi40)
-    result = await scrapeFlatCollection(config, state);
+    result = await scrapeFlatCollection(config, state, options);
   } else {
     // Collection with books
-    result = await scrapeCollectionWithBooks(config, state);
+    result = await scrapeCollectionWithBooks(config, state, options);
   }
 
   if (result) {
@@ -324,37 +304,44 @@ export async function scrapeCollection(
 /**
  * Scrape all collections
  */
-export async function scrapeAllCollections(): Promise<void> {
+export async function scrapeAllCollections(options: ScrapeOptions = {}): Promise<ScrapeSummary> {
   await initDataDir();
   const state = await loadState();
   printStateSummary(state);
+  const errorsBefore = state.errors.length;
+  const summary: ScrapeSummary = { scraped: [], failed: [], errors: 0 };
 
   const collectionIds = Object.keys(COLLECTIONS) as CollectionId[];
   const remaining = collectionIds.filter(
-    (id) => !state.completed_collections.includes(id),
+    (id) => options.fromCache || !state.completed_collections.includes(id),
   );
 
   log.info(`Collections to scrape: ${remaining.join(", ") || "(none)"}`);
 
   for (const collectionId of remaining) {
-    await scrapeCollection(collectionId);
+    const result = await scrapeCollection(collectionId, options);
+    (result ? summary.scraped : summary.failed).push(collectionId);
   }
 
   // Final summary
   const finalState = await loadState();
   printStateSummary(finalState);
+  log.info(`HTTP: ${summarizeRequestMetrics()}`);
 
-  if (finalState.errors.length > 0) {
-    log.warn(`Completed with ${finalState.errors.length} errors. See data/errors.log`);
+  summary.errors = finalState.errors.length - errorsBefore;
+  if (summary.errors > 0) {
+    log.warn(`Completed with ${summary.errors} errors. See data/errors.log`);
   } else {
     log.success("All collections scraped successfully!");
   }
+
+  return summary;
 }
 
 /**
  * Get scraper status
  */
-export async function getStatus(): Promise<void> {
+export async function getStatus(): Promise<ScraperState> {
   const state = await loadState();
   printStateSummary(state);
 
@@ -366,13 +353,34 @@ export async function getStatus(): Promise<void> {
       console.log(`  - [${err.timestamp}] ${err.collection}/${err.book}: ${err.message}`);
     }
   }
+
+  return state;
 }
 
 /**
- * Reset scraper state (for re-running)
+ * Reset scraper state (for re-running).
+ *
+ * With a collection, only that collection's progress, errors and incremental
+ * book files are cleared, so the next scrape fetches it again. HTML snapshots
+ * are kept either way.
  */
-export async function resetState(): Promise<void> {
+export async function resetState(collectionId?: CollectionId): Promise<void> {
   await initDataDir();
+
+  if (collectionId) {
+    const state = await loadState();
+    state.completed_collections = state.completed_collections.filter((id) => id !== collectionId);
+    state.errors = state.errors.filter((e) => e.collection !== collectionId);
+    if (state.current_collection === collectionId) {
+      state.current_collection = null;
+      state.completed_books = [];
+    }
+    await saveState(state);
+    await removeBookData(collectionId);
+    log.success(`Scraper state reset for ${collectionId}`);
+    return;
+  }
+
   await saveState({
     current_collection: null,
     completed_collections: [],
@@ -0,0 +1,320 @@
+/**
+ * Parallel-hadith clusters (`ohd clusters`)
+ *
+ * The same hadith is narrated in several collections with small differences
+ * of wording. Each matn_ar is normalized (punctuation dropped, then
+ * normalizeArabic) and cut into character shingles; MinHash signatures and
+ * locality-sensitive hashing (BANDS bands of ROWS rows) propose candidate
+ * pairs, and each candidate is verified by word-level edit distance. Verified
+ * pairs are joined into clusters, so two members of a cluster may only be
+ * linked through a third.
+ *
+ * Very short matns ("مِثْلَهُ", "نَحْوَهُ") would match each other across
+ * unrelated hadiths and are left out (MIN_WORDS). An LSH bucket shared by
+ * more than MAX_BUCKET hadiths only pairs neighbours, which still joins them
+ * when they match.
+ *
+ * The clusters are written to data/clusters.json; the SQLite build loads
+ * them into hadith_clusters.
+ */
+
+import type { CollectionId, ScrapedHadith } from "./types.ts";
+import { normalizeArabic } from "./arabic.ts";
+import { loadCollectionHadiths } from "./state.ts";
+
+const DATA_DIR = "./data";
+export const CLUSTERS_PATH = `${DATA_DIR}/clusters.json`;
+
+/** Characters per shingle */
+const SHINGLE = 5;
+const BANDS = 32;
+const ROWS = 4;
+const HASHES = BANDS * ROWS;
+/** Matns with fewer words are not clustered */
+const MIN_WORDS = 8;
+/** Buckets with more hadiths (a formula repeated throughout a collection) pair neighbours only */
+const MAX_BUCKET = 200;
+/** Word edit similarity a candidate pair needs */
+export const MIN_SIMILARITY = 0.5;
+/** Shortest normalized matn that joins hadiths as identical */
+const MIN_MATN_MATCH = 40;
+
+export interface ClusterHadith {
+  collection: CollectionId;
+  hadith: Pick<ScrapedHadith, "hadith_number" | "reference" | "matn_ar">;
+}
+
+export interface SimilarPair {
+  /** "collection:hadith_number" */
+  a: string;
+  b: string;
+  /** MinHash estimate of the shingle Jaccard similarity */
+  jaccard: number;
+  /** 1 - word edit distance / longer word count */
+  similarity: number;
+}
+
+export interface ClusterMember {
+  id: string;
+  collection: CollectionId;
+  hadith_number: string;
+  reference: string;
+  /** Highest similarity to another member */
+  similarity: number;
+  /** The member it is most similar to */
+  matched: string;
+}
+
+export interface HadithCluster {
+  /** 1-based, largest cluster first */
+  id: number;
+  hadiths: ClusterMember[];
+  pairs: SimilarPair[];
+}
+
+export interface ClusterSet {
+  generated_at: string;
+  parameters: { shingle: number; hashes: number; bands: number; min_words: number; min_similarity: number };
+  clusters: HadithCluster[];
+}
+
+/**
+ * Words of a matn after dropping punctuation and normalizing
+ */
+export function matnWords(text: string | null): string[] {
+  const normalized = normalizeArabic((text ?? "").replace(/[^\p{L}\p{M}\s]/gu, " "));
+  return normalized ? normalized.split(" ") : [];
+}
+
+/**
+ * Key shared by matns identical up to punctuation; null when the matn is too
+ * short to tell hadiths apart
+ */
+export function matnKey(text: string | null): string | null {
+  const matn = matnWords(text).join(" ");
+  return matn.length >= MIN_MATN_MATCH ? `matn:${matn}` : null;
+}
+
+/**
+ * Group items that share any of their keys; returns the item indices of each
+ * group, in input order
+ */
+export function groupByKeys<T>(items: T[], keys: (item: T) => (string | null)[]): number[][] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const first = new Map<string, number>();
+
+  for (const [i, item] of items.entries()) {
+    for (const key of keys(item)) {
+      if (key === null) continue;
+      const j = first.get(key);
+      if (j === undefined) first.set(key, i);
+      else parent[find(i)] = find(j);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  for (const i of items.keys()) {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(i);
+  }
+  return [...groups.values()];
+}
+
+/** 32-bit FNV-1a */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** MurmurHash3 finalizer: a cheap independent-looking permutation per seed */
+function mix(hash: number): number {
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const SEEDS = Array.from({ length: HASHES }, (_, i) => mix(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * MinHash signature of the character shingles of a word list
+ */
+export function minHash(words: string[]): Uint32Array {
+  const text = words.join(" ");
+  const signature = new Uint32Array(HASHES).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE <= Math.max(text.length, SHINGLE); i++) {
+    const base = fnv1a(text.slice(i, i + SHINGLE));
+    for (let h = 0; h < HASHES; h++) {
+      const value = mix(base ^ SEEDS[h]);
+      if (value < signature[h]) signature[h] = value;
+    }
+  }
+  return signature;
+}
+
+function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+  let same = 0;
+  for (let h = 0; h < HASHES; h++) if (a[h] === b[h]) same++;
+  return same / HASHES;
+}
+
+/**
+ * 1 - (word-level Levenshtein distance / length of the longer text)
+ */
+export function editSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  if (a.length < b.length) [a, b] = [b, a];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Array<number>(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1]
+        : 1 + Math.min(previous[j - 1], previous[j], current[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+  return 1 - previous[b.length] / a.length;
+}
+
+/**
+ * Verified pairs of similar matns, as hadith indices
+ */
+export function similarPairs(hadiths: ClusterHadith[]): { i: number; j: number; jaccard: number; similarity: number }[] {
+  const words = hadiths.map((h) => matnWords(h.hadith.matn_ar));
+  const signatures = new Map<number, Uint32Array>();
+  for (const [i, w] of words.entries()) {
+    if (w.length >= MIN_WORDS) signatures.set(i, minHash(w));
+  }
+
+  const candidates = new Set<number>();
+  for (let band = 0; band < BANDS; band++) {
+    const buckets = new Map<string, number[]>();
+    for (const [i, signature] of signatures) {
+      const key = signature.subarray(band * ROWS, (band + 1) * ROWS).join(",");
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    }
+    for (const bucket of buckets.values()) {
+      for (let x = 0; x < bucket.length; x++) {
+        const last = bucket.length > MAX_BUCKET ? Math.min(x + 1, bucket.length - 1) : bucket.length - 1;
+        for (let y = x + 1; y <= last; y++) candidates.add(bucket[x] * hadiths.length + bucket[y]);
+      }
+    }
+  }
+
+  const pairs: { i: number; j: number; jaccard: number; similarity: number }[] = [];
+  for (const candidate of [...candidates].sort((a, b) => a - b)) {
+    const i = Math.floor(candidate / hadiths.length);
+    const j = candidate % hadiths.length;
+    // Edit similarity cannot exceed the ratio of the lengths
+    const [short, long] = [words[i].length, words[j].length].sort((a, b) => a - b);
+    if (short / long < MIN_SIMILARITY) continue;
+    const similarity = editSimilarity(words[i], words[j]);
+    if (similarity < MIN_SIMILARITY) continue;
+    pairs.push({
+      i,
+      j,
+      jaccard: estimateJaccard(signatures.get(i)!, signatures.get(j)!),
+      similarity: Math.round(similarity * 1000) / 1000,
+    });
+  }
+  return pairs;
+}
+
+/**
+ * Cluster hadiths whose matns are similar
+ */
+export function clusterSimilarHadiths(hadiths: ClusterHadith[]): HadithCluster[] {
+  const id = (i: number) => `${hadiths[i].collection}:${hadiths[i].hadith.hadith_number}`;
+  const pairs = similarPairs(hadiths);
+
+  const parent = hadiths.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const best = new Map<number, { similarity: number; matched: number }>();
+  for (const { i, j, similarity } of pairs) {
+    parent[find(j)] = find(i);
+    for (const [x, y] of [[i, j], [j, i]]) {
+      if ((best.get(x)?.similarity ?? -1) < similarity) best.set(x, { similarity, matched: y });
+    }
+  }
+
+  const groups = new Map<number, { members: number[]; pairs: SimilarPair[] }>();
+  for (const i of best.keys()) {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, { members: [], pairs: [] });
+    groups.get(root)!.members.push(i);
+  }
+  for (const { i, j, jaccard, similarity } of pairs) {
+    groups.get(find(i))!.pairs.push({ a: id(i), b: id(j), jaccard, similarity });
+  }
+
+  return [...groups.values()]
+    .map((g) => ({ ...g, members: g.members.sort((a, b) => a - b) }))
+    .sort((a, b) => b.members.length - a.members.length || a.members[0] - b.members[0])
+    .map((g, n) => ({
+      id: n + 1,
+      hadiths: g.members.map((i) => ({
+        id: id(i),
+        collection: hadiths[i].collection,
+        hadith_number: hadiths[i].hadith.hadith_number,
+        reference: hadiths[i].hadith.reference,
+        similarity: best.get(i)!.similarity,
+        matched: id(best.get(i)!.matched),
+      })),
+      pairs: g.pairs,
+    }));
+}
+
+/**
+ * Cluster the hadiths of every scraped collection
+ */
+export async function buildClusters(dir = `${DATA_DIR}/collections`): Promise<ClusterSet> {
+  const hadiths: ClusterHadith[] = [];
+  for (const { collection: id, hadiths: collectionHadiths } of await loadCollectionHadiths(dir)) {
+    for (const hadith of collectionHadiths) hadiths.push({ collection: id, hadith });
+  }
+
+  return {
+    generated_at: new Date().toISOString(),
+    parameters: { shingle: SHINGLE, hashes: HASHES, bands: BANDS, min_words: MIN_WORDS, min_similarity: MIN_SIMILARITY },
+    clusters: clusterSimilarHadiths(hadiths),
+  };
+}
+
+/**
+ * Read data/clusters.json; null when `ohd clusters` has not been run
+ */
+export async function loadClusters(path = CLUSTERS_PATH): Promise<ClusterSet | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+/**
+ * Build the clusters from data/collections/ and write data/clusters.json
+ */
+export async function writeClusters(): Promise<{ output: string; clusters: number; hadiths: number; cross_collection: number }> {
+  const set = await buildClusters();
+  await Deno.writeTextFile(CLUSTERS_PATH, JSON.stringify(set, null, 2));
+
+  const hadiths = set.clusters.reduce((sum, c) => sum + c.hadiths.length, 0);
+  const crossCollection = set.clusters.filter((c) => new Set(c.hadiths.map((h) => h.collection)).size > 1).length;
+  console.log(`\nClusters: ${set.clusters.length} (${hadiths} hadiths, ${crossCollection} across collections)`);
+  console.log(`  Written to ${CLUSTERS_PATH}`);
+
+  return { output: CLUSTERS_PATH, clusters: set.clusters.length, hadiths, cross_collection: crossCollection };
+}
@@ -0,0 +1,165 @@
+/**
+ * Raw HTML snapshot store, so parser fixes can be replayed offline
+ *
+ * Layout:
+ *   data/html/objects/<sha256>.html     Page bodies, content-addressed
+ *   data/html/pages/<path>.json         Latest snapshot metadata per URL
+ *
+ * <path> mirrors the URL path: /bukhari/1 -> bukhari/1.json, /hisn -> hisn/index.json
+ *
+ * Bodies are never overwritten or removed, but pages/ only points at the
+ * latest fetch. Each parsed book (and flat collection, and Hisn) records the
+ * hash of the page it was parsed from in source_page, and each release ships
+ * those as a manifest of URL -> body hash (dist/json/snapshots.json);
+ * pinSnapshots() makes --from-cache read those bodies, so the release can be
+ * rebuilt after later fetches.
+ */
+
+import { ensureDir } from "@std/fs";
+import { dirname } from "@std/path";
+import type { PageSnapshot, PageSource } from "./types.ts";
+
+const SNAPSHOT_DIR = "./data/html";
+const OBJECTS_DIR = `${SNAPSHOT_DIR}/objects`;
+const PAGES_DIR = `${SNAPSHOT_DIR}/pages`;
+
+/** URL -> body hash of the page every released record was parsed from */
+export interface SnapshotManifest {
+  generated_at: string;
+  pages: Record<string, string>;
+}
+
+/** Set by pinSnapshots(): loadCachedPage() serves these bodies only */
+let pinned: Map<string, string> | null = null;
+
+/**
+ * SHA-256 hex digest of a page body
+ */
+export async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Source record of a parsed page; the body is the one the snapshot store holds
+ */
+export async function pageSource(url: string, html: string): Promise<PageSource> {
+  return { url, sha256: await sha256(html) };
+}
+
+/**
+ * Metadata file path for a URL (one file per collection/book page)
+ */
+function pageMetaPath(url: string): string {
+  const segments = new URL(url).pathname.split("/").filter(Boolean);
+  if (segments.length === 0) segments.push("index");
+  if (segments.length === 1) segments.push("index");
+  return `${PAGES_DIR}/${segments.map(encodeURIComponent).join("/")}.json`;
+}
+
+/**
+ * Store a fetched page. The body is written once per unique content hash;
+ * the per-URL metadata always points at the latest fetch.
+ */
+export async function saveSnapshot(
+  url: string,
+  html: string,
+  status: number,
+  headers: Record<string, string>,
+): Promise<PageSnapshot> {
+  const hash = await sha256(html);
+  const objectPath = `${OBJECTS_DIR}/${hash}.html`;
+
+  await ensureDir(OBJECTS_DIR);
+  try {
+    await Deno.stat(objectPath);
+  } catch {
+    await Deno.writeTextFile(objectPath, html);
+  }
+
+  const snapshot: PageSnapshot = {
+    url,
+    fetched_at: new Date().toISOString(),
+    status,
+    headers,
+    sha256: hash,
+    bytes: new TextEncoder().encode(html).length,
+  };
+
+  const metaPath = pageMetaPath(url);
+  await ensureDir(dirname(metaPath));
+  await Deno.writeTextFile(metaPath, JSON.stringify(snapshot, null, 2));
+
+  return snapshot;
+}
+
+/**
+ * Load snapshot metadata for a URL, or null if it was never fetched
+ */
+export async function loadSnapshot(url: string): Promise<PageSnapshot | null> {
+  try {
+    const data = await Deno.readTextFile(pageMetaPath(url));
+    return JSON.parse(data) as PageSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the stored body for a snapshot, verifying it against its hash
+ */
+export async function readSnapshotBody(snapshot: Pick<PageSnapshot, "url" | "sha256">): Promise<string> {
+  const html = await Deno.readTextFile(`${OBJECTS_DIR}/${snapshot.sha256}.html`);
+  const hash = await sha256(html);
+  if (hash !== snapshot.sha256) {
+    throw new Error(`Snapshot for ${snapshot.url} is corrupt (expected ${snapshot.sha256}, got ${hash})`);
+  }
+  return html;
+}
+
+/**
+ * Load the cached HTML for a URL, or null if there is no snapshot
+ */
+export async function loadCachedPage(url: string): Promise<string | null> {
+  if (pinned) {
+    const hash = pinned.get(url);
+    return hash ? await readSnapshotBody({ url, sha256: hash }) : null;
+  }
+  const snapshot = await loadSnapshot(url);
+  if (!snapshot) return null;
+  return await readSnapshotBody(snapshot);
+}
+
+/**
+ * Manifest of the pages a release was parsed from
+ */
+export function buildSnapshotManifest(sources: PageSource[]): SnapshotManifest {
+  const pages = [...sources].sort((a, b) => a.url < b.url ? -1 : a.url > b.url ? 1 : 0);
+  return {
+    generated_at: new Date().toISOString(),
+    pages: Object.fromEntries(pages.map((p) => [p.url, p.sha256])),
+  };
+}
+
+/**
+ * Write the snapshot manifest for a release; returns the number of pages
+ */
+export async function writeSnapshotManifest(path: string, sources: PageSource[]): Promise<number> {
+  const manifest = buildSnapshotManifest(sources);
+  await Deno.writeTextFile(path, JSON.stringify(manifest, null, 2));
+  return Object.keys(manifest.pages).length;
+}
+
+/**
+ * Serve --from-cache from the pages of a release manifest instead of the
+ * latest snapshots
+ */
+export async function pinSnapshots(path: string): Promise<void> {
+  const manifest = JSON.parse(await Deno.readTextFile(path)) as SnapshotManifest;
+  pinned = new Map(Object.entries(manifest.pages));
+}
@@ -4,11 +4,13 @@
 
 import { ensureDir } from "@std/fs";
 import { dirname } from "@std/path";
-import type {
-  CollectionId,
-  ScrapedCollection,
-  ScraperError,
-  ScraperState,
+import {
+  COLLECTIONS,
+  type CollectionId,
+  type ScrapedCollection,
+  type ScrapedHadith,
+  type ScraperError,
+  type ScraperState,
 } from "./types.ts";
 
 const STATE_FILE = "./data/scraper-state.json";
@@ -67,13 +69,29 @@ export async function loadState(): Promise<ScraperState> {
   }
 }
 
+/**
+ * Pending state write. Book workers run concurrently, so writes are chained
+ * to keep them in order and never interleaved.
+ */
+let stateWrite: Promise<void> = Promise.resolve();
+
 /**
  * Save scraper state to file
  */
-export async function saveState(state: ScraperState): Promise<void> {
-  await ensureDir(dirname(STATE_FILE));
+export function saveState(state: ScraperState): Promise<void> {
   state.last_update = new Date().toISOString();
-  await Deno.writeTextFile(STATE_FILE, JSON.stringify(state, null, 2));
+  const data = JSON.stringify(state, null, 2);
+
+  stateWrite = stateWrite
+    .catch(() => {})
+    .then(async () => {
+      await ensureDir(dirname(STATE_FILE));
+      // Write-then-rename so an interrupted run never leaves a truncated state file
+      await Deno.writeTextFile(`${STATE_FILE}.tmp`, data);
+      await Deno.rename(`${STATE_FILE}.tmp`, STATE_FILE);
+    });
+
+  return stateWrite;
 }
 
 /**
@@ -168,6 +186,42 @@ export async function loadCollectionData(
   }
 }
 
+/**
+ * Read data/collections/<id>.json; null when the collection has not been
+ * scraped. A file that cannot be read or parsed is an error.
+ */
+export async function loadScrapedCollection(
+  collectionId: CollectionId,
+  dir = `${DATA_DIR}/collections`,
+): Promise<ScrapedCollection | null> {
+  const filepath = `${dir}/${collectionId}.json`;
+  try {
+    return JSON.parse(await Deno.readTextFile(filepath)) as ScrapedCollection;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw new Error(`Cannot load ${filepath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Hadiths of every scraped collection, in registry order. Collections not
+ * scraped yet are skipped; a file that cannot be read or parsed is an error.
+ */
+export async function loadCollectionHadiths(
+  dir = `${DATA_DIR}/collections`,
+): Promise<{ collection: CollectionId; hadiths: ScrapedHadith[] }[]> {
+  const collections: { collection: CollectionId; hadiths: ScrapedHadith[] }[] = [];
+
+  for (const collection of Object.keys(COLLECTIONS) as CollectionId[]) {
+    const data = await loadScrapedCollection(collection, dir);
+    if (!data) continue;
+    const hadiths = data.books ? data.books.flatMap((b) => b.hadiths) : data.hadiths ?? [];
+    collections.push({ collection, hadiths });
+  }
+
+  return collections;
+}
+
 /**
  * Save incremental book data (for robustness)
  */
@@ -197,6 +251,17 @@ export async function loadBookData(
   }
 }
 
+/**
+ * Delete a collection's incremental book files
+ */
+export async function removeBookData(collectionId: CollectionId): Promise<void> {
+  try {
+    await Deno.remove(`${DATA_DIR}/books/${collectionId}`, { recursive: true });
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+}
+
 /**
  * Print state summary
  */
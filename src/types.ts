@@ -58,6 +58,8 @@ export interface ScrapedCollection {
   books: ScrapedBook[] | null;
   /** For flat collections like nawawi40 */
   hadiths?: ScrapedHadith[];
+  /** Snapshot a flat collection was parsed from */
+  source_page?: PageSource;
   stats: {
     total_books: number;
     total_chapters: number;
@@ -72,6 +74,8 @@ export interface ScrapedBook {
   name_ar: string | null;
   chapters: ScrapedChapter[];
   hadiths: ScrapedHadith[];
+  /** Snapshot the book was parsed from (absent in books parsed before it was recorded) */
+  source_page?: PageSource;
 }
 
 export interface ScrapedChapter {
@@ -99,20 +103,87 @@ export interface ScrapedHadith {
   matn_en: string | null;
   /** Arabic closing/additional isnad (second .arabic_sanad if exists) */
   closing_ar: string | null;
+  /** matn_ar without diacritics or tatweel, ligatures expanded, letters as written (src/arabic.ts "ml" profile) */
+  matn_ar_plain: string | null;
+  /** isnad_ar, likewise */
+  isnad_ar_plain: string | null;
+  /** How isnad_ar and matn_ar were separated */
+  split_method: SplitMethod;
+  /** Confidence in the isnad_ar/matn_ar split, 0 (none) to 1 */
+  split_confidence: number;
   narrator: string | null;
+  /** True if other narrations share this hadith's base number (8a, 8b, ...) */
   has_variants: boolean;
+  /** Base hadith number this record is a variant of ("8" for "8a"), null if unsuffixed */
+  variant_of: string | null;
+  /** Letter suffix of a variant ("a" for "8a"), null if unsuffixed */
+  variant_suffix: string | null;
   /** For compilations: source collection reference */
   source_reference: string | null;
+  /** For compilations: source_reference as structured citations (empty for primary collections) */
+  source_citations: SourceCitation[];
   /** For compilations: grade from source */
   source_grade: string | null;
   /** Full English grade string (e.g., "Sahih (Darussalam)") from .gradetable */
   grade_en: string | null;
   /** Full Arabic grade string from .gradetable */
   grade_ar: string | null;
+  /** Every row of .gradetable, one per grader (grade_en/grade_ar/source_grade summarize the first) */
+  grades: HadithGrade[];
+  /** Category of source_grade (sahih, hasan, daif, maudu) */
+  grade_category: GradeCategory | null;
   /** URL to the hadith on sunnah.com */
   url_source: string | null;
 }
 
+/**
+ * One collection cited by a compilation hadith ("[Al-Bukhari and Muslim]")
+ */
+export interface SourceCitation {
+  collection: CollectionId;
+  /** Hadith number in the cited collection, when the page links to it ("2564c") */
+  hadith_number: string | null;
+  /** Agreed upon (muttafaqun 'alayh): cited from both al-Bukhari and Muslim */
+  agreed_upon: boolean;
+}
+
+/**
+ * How isnad_ar and matn_ar were separated:
+ * - dom: from the .arabic_sanad / .arabic_text_details spans
+ * - heuristic_qala: splitIsnadFromMatn, at the first قَالَ not followed by a narration verb
+ * - heuristic_anna: splitIsnadFromMatn, at أَنَّ رَسُولَ / أَنَّ النَّبِيَّ
+ * - regex: isnad_ar matched by a pattern; matn_ar is the full text
+ * - none: no isnad found; matn_ar is the full text
+ */
+export type SplitMethod = "dom" | "heuristic_qala" | "heuristic_anna" | "regex" | "none";
+
+/** Grade category of the taxonomy in src/grades.ts */
+export type GradeCategory = "sahih" | "hasan" | "daif" | "maudu";
+
+/**
+ * li_ghairihi: strengthened by other routes; mawquf: stops at a Companion;
+ * isnad: the grade is of the chain only ("Isnaduhu Sahih", "إسناده ضعيف")
+ */
+export type GradeModifier = "li_ghairihi" | "mawquf" | "isnad";
+
+/**
+ * One grader's verdict from a .gradetable row
+ */
+export interface HadithGrade {
+  /** Grader named in parentheses ("Darussalam", "Al-Albani", "Zubair 'Aliza'i") */
+  grader: string | null;
+  /** English grade without the grader ("Sahih", "Hasan Sahih") */
+  grade_en: string | null;
+  /** Arabic grade without the grader ("صحيح") */
+  grade_ar: string | null;
+  /** Taxonomy term (sahih, hasan sahih, hasan, daif, munkar, ...), null if unmapped */
+  normalized: string | null;
+  category: GradeCategory | null;
+  /** 0 (maudu) to 6 (sahih), null if unmapped */
+  strength: number | null;
+  modifiers: GradeModifier[];
+}
+
 // ============================================================================
 // Scraper State Types
 // ============================================================================
@@ -140,6 +211,68 @@ export interface ScraperError {
   url: string;
 }
 
+export interface ScrapeOptions {
+  /** Re-parse stored HTML snapshots instead of fetching (no network access) */
+  fromCache?: boolean;
+  /** Number of books fetched/parsed in parallel (default SCRAPE_CONCURRENCY) */
+  concurrency?: number;
+}
+
+export interface ScrapeSummary {
+  /** Collections written to data/collections/ in this run */
+  scraped: CollectionId[];
+  /** Collections that produced no data in this run */
+  failed: CollectionId[];
+  /** Errors recorded in this run (see data/errors.log) */
+  errors: number;
+}
+
+// ============================================================================
+// Snapshot Types
+// ============================================================================
+
+export interface PageSnapshot {
+  url: string;
+  /** When the page was fetched */
+  fetched_at: string;
+  /** HTTP status of the response */
+  status: number;
+  /** Response headers (lower-cased names) */
+  headers: Record<string, string>;
+  /** SHA-256 of the body, also its filename under data/html/objects/ */
+  sha256: string;
+  bytes: number;
+}
+
+/** The page a record was parsed from: its URL and body hash under data/html/objects/ */
+export interface PageSource {
+  url: string;
+  sha256: string;
+}
+
+// ============================================================================
+// HTTP Types
+// ============================================================================
+
+/** One HTTP attempt, as appended to data/http-metrics.jsonl */
+export interface RequestMetric {
+  url: string;
+  host: string;
+  /** 1-based attempt number for this URL */
+  attempt: number;
+  started_at: string;
+  duration_ms: number;
+  /** HTTP status, null if the request never got a response */
+  status: number | null;
+  /** Body size in bytes (0 for 304 and failures) */
+  bytes: number;
+  /** True when a conditional request was answered 304 from the snapshot store */
+  not_modified: boolean;
+  /** Delay requested by a Retry-After header, if any */
+  retry_after_ms: number | null;
+  error: string | null;
+}
+
 // ============================================================================
 // Parser Types
 // ============================================================================
@@ -162,6 +295,22 @@ export interface ParsedHadithElement {
   chapter_number: number | null;
 }
 
+// ============================================================================
+// Build Types
+// ============================================================================
+
+/** Summary of one release artifact build (ohd build sqlite|csv|json) */
+export interface BuildResult {
+  /** Output file or directory */
+  output: string;
+  collections: number;
+  hadiths: number;
+  /** Hisn al-Muslim duas (0 when hisn.json is not scraped) */
+  duas: number;
+  /** Total size of the written files */
+  bytes: number;
+}
+
 // ============================================================================
 // Configuration
 // ============================================================================
@@ -362,6 +511,11 @@ export const COLLECTIONS: Record<CollectionId, CollectionConfig> = {
 };
 
 export const BASE_URL = "https://sunnah.com";
-export const RATE_LIMIT_MS = 1500; // 1.5 seconds between requests
+export const USER_AGENT = "HadathaniScraper/1.0 (Educational hadith app)";
+export const RATE_LIMIT_MS = 1500; // 1.5 seconds between requests (per host)
+export const RATE_LIMIT_BURST = 1; // Token bucket capacity
+export const REQUEST_TIMEOUT_MS = 30000;
 export const MAX_RETRIES = 3;
-export const RETRY_DELAY_MS = 5000;
+export const RETRY_DELAY_MS = 5000; // Base delay, doubled per attempt (with jitter)
+export const RETRY_MAX_DELAY_MS = 60000;
+export const SCRAPE_CONCURRENCY = 4; // Books in flight at once; request rate is still capped by RATE_LIMIT_MS/RATE_LIMIT_BURST
@@ -1,15 +1,179 @@
 /**
- * Validation script for scraped data
+ * Validation of scraped data
  *
- * Usage: deno task validate
+ * Usage: ohd validate [--config validation.json] [--report-dir dist/validation]
+ *
+ * Every finding names the rule that produced it, its severity and where it was
+ * found (collection, book, hadith number, field). Per-collection thresholds in
+ * validation.json decide when a count of findings becomes an error; the command
+ * exits 1 only when some collection has error findings.
+ *
+ * The full report is written to <report-dir>/report.json and report.md.
  */
 
-import { COLLECTIONS, type CollectionId, type ScrapedCollection } from "./types.ts";
+import { ensureDir } from "@std/fs";
+import {
+  BASE_URL,
+  COLLECTIONS,
+  type CollectionId,
+  type ScrapedCollection,
+  type ScrapedHadith,
+  type SplitMethod,
+} from "./types.ts";
+import { COLLECTION_NAMES } from "./parser.ts";
+import { loadScrapedCollection } from "./state.ts";
+
+const DEFAULT_CONFIG_FILE = "validation.json";
+const DEFAULT_REPORT_DIR = "dist/validation";
+
+/** Hadith numbers listed per rule in the console and Markdown summaries */
+const MAX_EXAMPLES = 5;
+const MAX_MARKDOWN_EXAMPLES = 50;
+
+// ============================================================================
+// Rules & Findings
+// ============================================================================
 
-interface ValidationResult {
+export type Severity = "error" | "warning" | "info";
+
+const SEVERITIES: Severity[] = ["error", "warning", "info"];
+
+const SPLIT_METHODS: SplitMethod[] = ["dom", "heuristic_anna", "heuristic_qala", "regex", "none"];
+
+/**
+ * Rule ids with their default severity. Rules that count missing fields are
+ * reported per hadith at the default severity, plus one collection-level error
+ * when the count exceeds the collection's threshold.
+ */
+export const RULES = {
+  "collection-missing": { severity: "error", description: "Collection file not found" },
+  "collection-unreadable": { severity: "error", description: "Collection file cannot be read or parsed" },
+  "no-hadiths": { severity: "error", description: "Collection has no hadiths" },
+  "hadith-count": { severity: "error", description: "Hadith count differs from expected_hadiths" },
+  "missing-arabic": { severity: "warning", description: "text_ar missing or shorter than 10 characters" },
+  "missing-english": { severity: "warning", description: "text_en missing or shorter than 10 characters" },
+  "missing-narrator": { severity: "info", description: "No narrator extracted" },
+  "missing-source-ref": { severity: "warning", description: "Compilation hadith without source_reference" },
+  "reference-format": { severity: "error", description: "reference is not \"<collection name> <hadith_number>\"" },
+  "url-source": { severity: "error", description: "url_source does not match the collection and hadith number" },
+  "in-book-reference": { severity: "warning", description: "in_book_reference does not match the book or does not follow the previous hadith" },
+  "duplicate-number": { severity: "error", description: "hadith_number appears more than once" },
+  "variant-single": { severity: "warning", description: "Variant group with a single record" },
+  "numbering-gap": { severity: "warning", description: "Hadith numbers skipped before this hadith" },
+  "out-of-order": { severity: "warning", description: "Hadith number lower than a preceding one" },
+} satisfies Record<string, { severity: Severity; description: string }>;
+
+export type RuleId = keyof typeof RULES;
+
+export interface Finding {
   collection: CollectionId;
+  /** Book number or key; null for flat collections and collection-level findings */
+  book: number | string | null;
+  /** null for collection-level findings */
+  hadith_number: string | null;
+  /** Hadith field the finding is about, if any */
+  field: string | null;
+  rule: RuleId;
+  severity: Severity;
+  message: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface Thresholds {
+  /** Hadith count from the README table; unchecked when absent */
+  expected_hadiths?: number;
+  /** Allowed deviation from expected_hadiths, in percent */
+  hadith_count_tolerance_pct: number;
+  max_missing_arabic_pct: number;
+  max_missing_english_pct: number;
+  max_missing_narrator_pct: number;
+  max_missing_source_ref_pct: number;
+  /** Per-rule severity overrides for per-hadith findings */
+  severity: Partial<Record<RuleId, Severity>>;
+}
+
+export interface ValidationConfig {
+  defaults: Thresholds;
+  collections: Partial<Record<CollectionId, Partial<Thresholds>>>;
+}
+
+/** Used when validation.json is not present in the working directory */
+const BUILTIN_CONFIG: ValidationConfig = {
+  defaults: {
+    hadith_count_tolerance_pct: 1,
+    max_missing_arabic_pct: 0,
+    max_missing_english_pct: 0,
+    max_missing_narrator_pct: 50,
+    max_missing_source_ref_pct: 10,
+    severity: {},
+  },
+  collections: {},
+};
+
+/**
+ * Load validation thresholds. A missing default config falls back to the
+ * built-in thresholds; a missing explicit --config path is an error.
+ */
+export async function loadValidationConfig(
+  path?: string,
+): Promise<{ config: ValidationConfig; path: string | null }> {
+  const file = path ?? DEFAULT_CONFIG_FILE;
+  let raw: string;
+  try {
+    raw = await Deno.readTextFile(file);
+  } catch (error) {
+    if (path === undefined && error instanceof Deno.errors.NotFound) {
+      return { config: BUILTIN_CONFIG, path: null };
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(raw) as Partial<ValidationConfig>;
+  const config: ValidationConfig = {
+    defaults: { ...BUILTIN_CONFIG.defaults, ...parsed.defaults },
+    collections: parsed.collections ?? {},
+  };
+
+  checkSeverities(file, config.defaults.severity);
+  for (const [id, thresholds] of Object.entries(config.collections)) {
+    if (!(id in COLLECTIONS)) throw new Error(`${file}: unknown collection "${id}"`);
+    checkSeverities(file, thresholds?.severity ?? {});
+  }
+
+  return { config, path: file };
+}
+
+function checkSeverities(file: string, severity: Record<string, string>): void {
+  for (const [rule, level] of Object.entries(severity)) {
+    if (!(rule in RULES)) throw new Error(`${file}: unknown rule "${rule}"`);
+    if (!SEVERITIES.includes(level as Severity)) {
+      throw new Error(`${file}: invalid severity "${level}" for ${rule}`);
+    }
+  }
+}
+
+function thresholdsFor(config: ValidationConfig, id: CollectionId): Thresholds {
+  const own = config.collections[id] ?? {};
+  return {
+    ...config.defaults,
+    ...own,
+    severity: { ...config.defaults.severity, ...own.severity },
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export interface ValidationResult {
+  collection: CollectionId;
+  /** No error findings */
   valid: boolean;
-  issues: string[];
+  findings: Finding[];
+  counts: Record<Severity, number>;
   stats: {
     books: number;
     chapters: number;
@@ -18,163 +182,460 @@ interface ValidationResult {
     missing_english: number;
     missing_narrator: number;
     missing_source_ref: number;
+    variants: number;
+    variant_groups: number;
+    bad_references: number;
+    bad_urls: number;
+    bad_in_book_references: number;
+    numbering_gaps: number;
+    out_of_order: number;
+    /** Hadiths per split_method (JSON scraped before split_method existed is not counted) */
+    split_methods: Record<SplitMethod, number>;
+    /** Mean split_confidence, null when no hadith has one */
+    split_confidence: number | null;
   };
 }
 
-async function loadCollection(id: CollectionId): Promise<ScrapedCollection | null> {
-  try {
-    const data = await Deno.readTextFile(`./data/collections/${id}.json`);
-    return JSON.parse(data) as ScrapedCollection;
-  } catch {
-    return null;
-  }
+export interface ValidationReport {
+  generated_at: string;
+  /** Thresholds file used, null for the built-in defaults */
+  config: string | null;
+  valid: boolean;
+  summary: {
+    collections: number;
+    valid_collections: number;
+    hadiths: number;
+    errors: number;
+    warnings: number;
+    info: number;
+  };
+  collections: ValidationResult[];
+}
+
+type ValidationStats = ValidationResult["stats"];
+
+function emptyStats(): ValidationStats {
+  return {
+    books: 0,
+    chapters: 0,
+    hadiths: 0,
+    missing_arabic: 0,
+    missing_english: 0,
+    missing_narrator: 0,
+    missing_source_ref: 0,
+    variants: 0,
+    variant_groups: 0,
+    bad_references: 0,
+    bad_urls: 0,
+    bad_in_book_references: 0,
+    numbering_gaps: 0,
+    out_of_order: 0,
+    split_methods: { dom: 0, heuristic_anna: 0, heuristic_qala: 0, regex: 0, none: 0 },
+    split_confidence: null,
+  };
 }
 
-function validateCollection(data: ScrapedCollection, config: typeof COLLECTIONS[CollectionId]): ValidationResult {
-  const issues: string[] = [];
-  let totalHadiths = 0;
-  let missingArabic = 0;
-  let missingEnglish = 0;
-  let missingNarrator = 0;
-  let missingSourceRef = 0;
+function countSeverities(findings: Finding[]): Record<Severity, number> {
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+  for (const f of findings) counts[f.severity]++;
+  return counts;
+}
 
-  // Get all hadiths
-  const allHadiths = data.books
-    ? data.books.flatMap((b) => b.hadiths)
-    : data.hadiths || [];
+function validateCollection(
+  data: ScrapedCollection,
+  config: typeof COLLECTIONS[CollectionId],
+  thresholds: Thresholds,
+): ValidationResult {
+  const findings: Finding[] = [];
+  const stats = emptyStats();
+  const name = COLLECTION_NAMES[config.id];
 
-  totalHadiths = allHadiths.length;
+  const add = (
+    rule: RuleId,
+    message: string,
+    at: { book?: number | string | null; hadith?: ScrapedHadith; field?: string; severity?: Severity } = {},
+  ) => {
+    findings.push({
+      collection: config.id,
+      book: at.book ?? null,
+      hadith_number: at.hadith?.hadith_number ?? null,
+      field: at.field ?? null,
+      rule,
+      severity: at.severity ?? thresholds.severity[rule] ?? RULES[rule].severity,
+      message,
+    });
+  };
 
-  // Validate each hadith
-  for (const hadith of allHadiths) {
-    // Check required fields
-    if (!hadith.text_ar || hadith.text_ar.trim().length < 10) {
-      missingArabic++;
-    }
+  // Flat collections are walked as a single book without a book number
+  const books: { book: number | string | null; book_number: number | null; hadiths: ScrapedHadith[] }[] = data.books
+    ? data.books.map((b) => ({
+      book: b.book_key ?? b.book_number,
+      book_number: b.book_key === null ? b.book_number : null,
+      hadiths: b.hadiths,
+    }))
+    : [{ book: null, book_number: null, hadiths: data.hadiths || [] }];
 
-    if (!hadith.text_en || hadith.text_en.trim().length < 10) {
-      missingEnglish++;
-    }
+  const seenNumbers = new Set<string>();
+  let confidenceSum = 0;
+  const variantGroups = new Map<string, { book: number | string | null; hadith: ScrapedHadith }[]>();
+  let previous: number | null = null;
 
-    if (!hadith.narrator) {
-      missingNarrator++;
-    }
+  for (const { book, book_number, hadiths } of books) {
+    // In-book number of the previous hadith; null when it had none we could read
+    let previousInBook: number | null = 0;
+    hadiths.forEach((hadith) => {
+      const number = hadith.hadith_number;
+      stats.hadiths++;
 
-    // For compilations, check source reference
-    if (config.type === "compilation" && !hadith.source_reference) {
-      missingSourceRef++;
+      // Required fields
+      if (!hadith.text_ar || hadith.text_ar.trim().length < 10) {
+        stats.missing_arabic++;
+        add("missing-arabic", "Arabic text missing or too short", { book, hadith, field: "text_ar" });
+      }
+      if (!hadith.text_en || hadith.text_en.trim().length < 10) {
+        stats.missing_english++;
+        add("missing-english", "English text missing or too short", { book, hadith, field: "text_en" });
+      }
+      if (!hadith.narrator) {
+        stats.missing_narrator++;
+        add("missing-narrator", "No narrator", { book, hadith, field: "narrator" });
+      }
+      if (config.type === "compilation" && !hadith.source_reference) {
+        stats.missing_source_ref++;
+        add("missing-source-ref", "No source reference", { book, hadith, field: "source_reference" });
+      }
+
+      if (hadith.split_method) {
+        stats.split_methods[hadith.split_method]++;
+        confidenceSum += hadith.split_confidence;
+      }
+
+      // References, from the collection registry
+      if (hadith.reference !== `${name} ${number}`) {
+        stats.bad_references++;
+        add("reference-format", `"${hadith.reference}", expected "${name} ${number}"`, {
+          book,
+          hadith,
+          field: "reference",
+        });
+      }
+
+      const url = `${BASE_URL}/${config.slug}:${number}`;
+      if (hadith.url_source !== url) {
+        stats.bad_urls++;
+        add("url-source", `${hadith.url_source ?? "none"}, expected ${url}`, { book, hadith, field: "url_source" });
+      }
+
+      if (hadith.in_book_reference) {
+        const expected = previousInBook === null ? null : previousInBook + 1;
+        const message = checkInBookReference(hadith.in_book_reference, book_number, expected);
+        if (message) {
+          stats.bad_in_book_references++;
+          add("in-book-reference", message, { book, hadith, field: "in_book_reference" });
+        }
+        const match = hadith.in_book_reference.match(IN_BOOK_REFERENCE);
+        previousInBook = match ? parseInt(match[2]) : null;
+      } else {
+        previousInBook = null;
+      }
+
+      if (seenNumbers.has(number)) {
+        add("duplicate-number", `Hadith number ${number} appears more than once`, {
+          book,
+          hadith,
+          field: "hadith_number",
+        });
+      }
+      seenNumbers.add(number);
+
+      if (hadith.variant_of) {
+        const group = variantGroups.get(hadith.variant_of) ?? [];
+        group.push({ book, hadith });
+        variantGroups.set(hadith.variant_of, group);
+      }
+
+      // Numbering follows scrape order; variants (8a, 8b) share their base number
+      const base = parseInt(number, 10);
+      if (isNaN(base)) return;
+      if (previous !== null) {
+        if (base < previous) {
+          stats.out_of_order++;
+          add("out-of-order", `${number} follows ${previous}`, { book, hadith, field: "hadith_number" });
+        } else if (base > previous + 1) {
+          stats.numbering_gaps++;
+          const missing = base - previous === 2 ? `${previous + 1}` : `${previous + 1}-${base - 1}`;
+          add("numbering-gap", `Numbers ${missing} missing before ${number}`, { book, hadith, field: "hadith_number" });
+        }
+      }
+      previous = Math.max(previous ?? base, base);
+    });
+  }
+
+  // Variant records (e.g. 4a, 4b) are grouped by base number; a lone variant suggests a missed sibling
+  for (const [base, group] of variantGroups) {
+    stats.variants += group.length;
+    if (group.length < 2) {
+      add("variant-single", `Variant group ${base} has a single record`, { ...group[0], field: "variant_of" });
     }
+  }
+  stats.variant_groups = variantGroups.size;
+
+  const splits = SPLIT_METHODS.reduce((sum, m) => sum + stats.split_methods[m], 0);
+  stats.split_confidence = splits > 0 ? Math.round(confidenceSum / splits * 100) / 100 : null;
+
+  // Collection-level thresholds
+  const total = stats.hadiths;
+  if (total === 0) {
+    add("no-hadiths", "No hadiths found");
+  }
 
-    // Validate reference format
-    const refPattern = /^(Sahih al-Bukhari|Sahih Muslim|Muwatta Malik|40 Hadith an-Nawawi|Riyad as-Salihin) \d+[a-z]?$/;
-    if (!refPattern.test(hadith.reference)) {
-      issues.push(`Invalid reference format: ${hadith.reference}`);
+  const expected = thresholds.expected_hadiths;
+  if (expected !== undefined && total > 0) {
+    const tolerance = expected * thresholds.hadith_count_tolerance_pct / 100;
+    if (Math.abs(total - expected) > tolerance) {
+      add("hadith-count", `${total} hadiths, expected ${expected} (±${thresholds.hadith_count_tolerance_pct}%)`);
     }
   }
 
-  // Check hadith count
-  if (totalHadiths === 0) {
-    issues.push("No hadiths found!");
+  const overThreshold = (rule: RuleId, count: number, maxPct: number, what: string) => {
+    if (total === 0 || count <= total * maxPct / 100) return;
+    const pct = ((count / total) * 100).toFixed(1);
+    add(rule, `${count} hadiths ${what} (${pct}%, max ${maxPct}%)`, { severity: "error" });
+  };
+  overThreshold("missing-arabic", stats.missing_arabic, thresholds.max_missing_arabic_pct, "missing Arabic text");
+  overThreshold("missing-english", stats.missing_english, thresholds.max_missing_english_pct, "missing English text");
+  overThreshold("missing-narrator", stats.missing_narrator, thresholds.max_missing_narrator_pct, "missing narrator");
+  if (config.type === "compilation") {
+    overThreshold(
+      "missing-source-ref",
+      stats.missing_source_ref,
+      thresholds.max_missing_source_ref_pct,
+      "missing source reference",
+    );
   }
 
-  // Check for duplicates
-  const numbers = allHadiths.map((h) => h.hadith_number);
-  const duplicates = numbers.filter((n, i) => numbers.indexOf(n) !== i);
-  if (duplicates.length > 0) {
-    issues.push(`Duplicate hadith numbers: ${[...new Set(duplicates)].slice(0, 5).join(", ")}...`);
+  stats.books = data.stats.total_books;
+  stats.chapters = data.stats.total_chapters;
+
+  const counts = countSeverities(findings);
+  return {
+    collection: config.id,
+    valid: counts.error === 0,
+    findings,
+    counts,
+    stats,
+  };
+}
+
+const IN_BOOK_REFERENCE = /^Book (\d+), Hadith (\d+)$/;
+
+/**
+ * Check "Book N, Hadith M" against the book the hadith was scraped from
+ * (null for string-keyed books and flat collections) and the number following
+ * the previous hadith's (null when unknown), so a gap is reported once
+ */
+function checkInBookReference(ref: string, bookNumber: number | null, expected: number | null): string | null {
+  const match = ref.match(IN_BOOK_REFERENCE);
+  if (!match) return `Unrecognized in-book reference "${ref}"`;
+  if (bookNumber !== null && parseInt(match[1]) !== bookNumber) {
+    return `"${ref}" but scraped from book ${bookNumber}`;
+  }
+  if (expected !== null && parseInt(match[2]) !== expected) {
+    return `"${ref}", expected Hadith ${expected} after the previous one`;
   }
+  return null;
+}
+
+// ============================================================================
+// Report
+// ============================================================================
 
-  // Stats-based warnings
-  if (missingArabic > 0) {
-    issues.push(`${missingArabic} hadiths missing Arabic text`);
+interface FindingGroup {
+  rule: RuleId;
+  severity: Severity;
+  findings: Finding[];
+}
+
+/**
+ * Findings grouped by rule and severity, errors first
+ */
+function groupFindings(findings: Finding[]): FindingGroup[] {
+  const groups = new Map<string, FindingGroup>();
+  for (const f of findings) {
+    const key = `${f.severity}:${f.rule}`;
+    const group = groups.get(key) ?? { rule: f.rule, severity: f.severity, findings: [] };
+    group.findings.push(f);
+    groups.set(key, group);
   }
-  if (missingEnglish > 0) {
-    issues.push(`${missingEnglish} hadiths missing English text`);
+  return [...groups.values()].sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+}
+
+/**
+ * The message of a collection-level finding, otherwise the affected hadith numbers
+ */
+function describeGroup(findings: Finding[], limit: number): string {
+  if (findings.length === 1 && findings[0].hadith_number === null) return findings[0].message;
+  const numbers = findings.map((f) => f.hadith_number ?? "-");
+  const shown = numbers.slice(0, limit).join(", ");
+  return `${findings.length} hadiths: ${shown}${numbers.length > limit ? ", ..." : ""}`;
+}
+
+function renderMarkdown(report: ValidationReport): string {
+  const { summary } = report;
+  const lines: string[] = [
+    "# Validation report",
+    "",
+    `Generated ${report.generated_at} with ${report.config ? `\`${report.config}\`` : "built-in thresholds"}.`,
+    "",
+    `**${report.valid ? "Passed" : "Failed"}**: ${summary.valid_collections}/${summary.collections} collections valid, ` +
+    `${summary.errors} errors, ${summary.warnings} warnings, ${summary.info} info.`,
+    "",
+    "| Collection | Hadiths | Errors | Warnings | Info | Status |",
+    "|---|---:|---:|---:|---:|---|",
+  ];
+
+  for (const r of report.collections) {
+    lines.push(
+      `| ${COLLECTIONS[r.collection].name_en} | ${r.stats.hadiths} | ${r.counts.error} | ${r.counts.warning} | ` +
+        `${r.counts.info} | ${r.valid ? "✅" : "❌"} |`,
+    );
   }
-  if (missingNarrator > totalHadiths * 0.5) {
-    issues.push(`${missingNarrator} hadiths missing narrator (${((missingNarrator/totalHadiths)*100).toFixed(0)}%)`);
+
+  lines.push(
+    "",
+    "## Isnad/matn splits",
+    "",
+    "How isnad_ar and matn_ar were separated (`split_method`), and the mean `split_confidence`.",
+    "",
+    `| Collection | ${SPLIT_METHODS.join(" | ")} | Mean confidence |`,
+    `|---|${SPLIT_METHODS.map(() => "---:|").join("")}---:|`,
+  );
+  for (const r of report.collections) {
+    if (r.stats.hadiths === 0) continue;
+    const counts = SPLIT_METHODS.map((m) => r.stats.split_methods[m]);
+    lines.push(`| ${COLLECTIONS[r.collection].name_en} | ${counts.join(" | ")} | ${r.stats.split_confidence ?? "-"} |`);
   }
-  if (config.type === "compilation" && missingSourceRef > totalHadiths * 0.1) {
-    issues.push(`${missingSourceRef} hadiths missing source reference`);
+
+  for (const r of report.collections) {
+    if (r.findings.length === 0) continue;
+    lines.push("", `## ${COLLECTIONS[r.collection].name_en} (\`${r.collection}\`)`, "");
+    lines.push("| Severity | Rule | Details |", "|---|---|---|");
+    for (const group of groupFindings(r.findings)) {
+      const details = describeGroup(group.findings, MAX_MARKDOWN_EXAMPLES).replaceAll("|", "\\|");
+      lines.push(`| ${group.severity} | \`${group.rule}\` | ${details} |`);
+    }
   }
 
-  return {
-    collection: data.collection.id,
-    valid: issues.length === 0,
-    issues,
-    stats: {
-      books: data.stats.total_books,
-      chapters: data.stats.total_chapters,
-      hadiths: totalHadiths,
-      missing_arabic: missingArabic,
-      missing_english: missingEnglish,
-      missing_narrator: missingNarrator,
-      missing_source_ref: missingSourceRef,
-    },
-  };
+  lines.push("", "Every finding, with its book, field and message, is listed in report.json.", "");
+  return lines.join("\n");
 }
 
-async function main(): Promise<void> {
+/**
+ * Validate every collection in data/collections/, print a summary and write
+ * report.json and report.md
+ */
+export async function validateAll(
+  options: { configPath?: string; reportDir?: string } = {},
+): Promise<ValidationReport> {
+  const { config, path: configPath } = await loadValidationConfig(options.configPath);
+  const reportDir = options.reportDir ?? DEFAULT_REPORT_DIR;
+
   console.log("\n" + "=".repeat(70));
   console.log("SCRAPED DATA VALIDATION REPORT");
   console.log("=".repeat(70) + "\n");
 
   const results: ValidationResult[] = [];
 
-  for (const [id, config] of Object.entries(COLLECTIONS)) {
-    const data = await loadCollection(id as CollectionId);
+  for (const [id, collection] of Object.entries(COLLECTIONS)) {
+    let data: ScrapedCollection | null;
+    let unreadable: string | null = null;
+    try {
+      data = await loadScrapedCollection(id as CollectionId);
+    } catch (error) {
+      data = null;
+      unreadable = error instanceof Error ? error.message : String(error);
+    }
 
     if (!data) {
-      console.log(`❌ ${config.name_en}: NOT FOUND`);
+      console.log(`❌ ${collection.name_en}: ${unreadable ? "UNREADABLE" : "NOT FOUND"}`);
+      const findings: Finding[] = [{
+        collection: id as CollectionId,
+        book: null,
+        hadith_number: null,
+        field: null,
+        rule: unreadable ? "collection-unreadable" : "collection-missing",
+        severity: "error",
+        message: unreadable ?? "Collection file not found",
+      }];
       results.push({
         collection: id as CollectionId,
         valid: false,
-        issues: ["Collection file not found"],
-        stats: { books: 0, chapters: 0, hadiths: 0, missing_arabic: 0, missing_english: 0, missing_narrator: 0, missing_source_ref: 0 },
+        findings,
+        counts: countSeverities(findings),
+        stats: emptyStats(),
       });
       continue;
     }
 
-    const result = validateCollection(data, config);
+    const result = validateCollection(data, collection, thresholdsFor(config, id as CollectionId));
     results.push(result);
 
-    const icon = result.valid ? "✅" : "⚠️";
-    console.log(`${icon} ${config.name_en}`);
+    const icon = result.valid ? "✅" : "❌";
+    console.log(`${icon} ${collection.name_en}`);
     console.log(`   Books: ${result.stats.books} | Chapters: ${result.stats.chapters} | Hadiths: ${result.stats.hadiths}`);
+    if (result.stats.variants > 0) {
+      console.log(`   Variants: ${result.stats.variants} records in ${result.stats.variant_groups} groups`);
+    }
+    if (result.stats.split_confidence !== null) {
+      const splits = SPLIT_METHODS
+        .filter((m) => result.stats.split_methods[m] > 0)
+        .map((m) => `${m} ${result.stats.split_methods[m]}`);
+      console.log(`   Splits: ${splits.join(" | ")} (mean confidence ${result.stats.split_confidence})`);
+    }
 
-    if (result.issues.length > 0) {
-      console.log("   Issues:");
-      for (const issue of result.issues.slice(0, 5)) {
-        console.log(`     - ${issue}`);
-      }
-      if (result.issues.length > 5) {
-        console.log(`     ... and ${result.issues.length - 5} more`);
-      }
+    for (const group of groupFindings(result.findings)) {
+      console.log(`     - ${group.severity.padEnd(7)} ${group.rule}: ${describeGroup(group.findings, MAX_EXAMPLES)}`);
     }
     console.log();
   }
 
+  const counts = countSeverities(results.flatMap((r) => r.findings));
+  const report: ValidationReport = {
+    generated_at: new Date().toISOString(),
+    config: configPath,
+    valid: results.every((r) => r.valid),
+    summary: {
+      collections: results.length,
+      valid_collections: results.filter((r) => r.valid).length,
+      hadiths: results.reduce((sum, r) => sum + r.stats.hadiths, 0),
+      errors: counts.error,
+      warnings: counts.warning,
+      info: counts.info,
+    },
+    collections: results,
+  };
+
+  await ensureDir(reportDir);
+  await Deno.writeTextFile(`${reportDir}/report.json`, JSON.stringify(report, null, 2));
+  await Deno.writeTextFile(`${reportDir}/report.md`, renderMarkdown(report));
+
   // Summary
   console.log("=".repeat(70));
   console.log("SUMMARY");
   console.log("=".repeat(70));
 
-  const totalHadiths = results.reduce((sum, r) => sum + r.stats.hadiths, 0);
-  const validCount = results.filter((r) => r.valid).length;
-  const totalIssues = results.reduce((sum, r) => sum + r.issues.length, 0);
+  console.log(`Collections: ${report.summary.valid_collections}/${report.summary.collections} valid`);
+  console.log(`Total hadiths: ${report.summary.hadiths.toLocaleString()}`);
+  console.log(`Total variants: ${results.reduce((sum, r) => sum + r.stats.variants, 0).toLocaleString()}`);
+  console.log(`Findings: ${counts.error} errors, ${counts.warning} warnings, ${counts.info} info`);
+  console.log(`Thresholds: ${configPath ?? "built-in defaults"}`);
+  console.log(`Report: ${reportDir}/report.json, ${reportDir}/report.md`);
 
-  console.log(`Collections: ${validCount}/${results.length} valid`);
-  console.log(`Total hadiths: ${totalHadiths.toLocaleString()}`);
-  console.log(`Total issues: ${totalIssues}`);
-
-  if (totalIssues > 0) {
-    console.log("\nRun with fixes or check the parser for improvements.");
-    Deno.exit(1);
-  } else {
+  if (report.valid) {
     console.log("\n✅ All validations passed!");
+  } else {
+    console.log("\nRun with fixes or check the parser for improvements.");
   }
-}
 
-if (import.meta.main) {
-  await main();
+  return report;
 }
@@ -0,0 +1,11 @@
+/**
+ * XML text and attribute escaping, shared by the graph and parallel-corpus builds
+ */
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
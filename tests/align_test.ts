@@ -0,0 +1,62 @@
+/**
+ * Tests for src/align.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { alignHadith, alignSegments, segmentArabic, segmentEnglish } from "../src/align.ts";
+
+Deno.test("segmentEnglish: sentence ends, not abbreviations", () => {
+  assertEquals(
+    segmentEnglish(
+      `I along with Humaid b. 'Abdur-Rahman set out for pilgrimage. He said: "Yes." The Prophet (ﷺ) said, "Whoever fasts Ramadan will be forgiven."`,
+    ),
+    [
+      `I along with Humaid b. 'Abdur-Rahman set out for pilgrimage.`,
+      `He said: "Yes."`,
+      `The Prophet (ﷺ) said, "Whoever fasts Ramadan will be forgiven."`,
+    ],
+  );
+});
+
+Deno.test("segmentArabic: cuts at Arabic sentence punctuation", () => {
+  assertEquals(
+    segmentArabic("قَالَ رَسُولُ اللَّهِ صلى الله عليه وسلم: إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ. وَإِنَّمَا لِكُلِّ امْرِئٍ مَا نَوَى؟"),
+    [
+      "قَالَ رَسُولُ اللَّهِ صلى الله عليه وسلم:",
+      "إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ.",
+      "وَإِنَّمَا لِكُلِّ امْرِئٍ مَا نَوَى؟",
+    ],
+  );
+});
+
+Deno.test("alignSegments: two short English sentences pair with one Arabic sentence", () => {
+  const pairs = alignSegments(
+    [
+      "إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ، وَإِنَّمَا لِكُلِّ امْرِئٍ مَا نَوَى.",
+      "فَمَنْ كَانَتْ هِجْرَتُهُ إِلَى دُنْيَا يُصِيبُهَا أَوْ إِلَى امْرَأَةٍ يَنْكِحُهَا فَهِجْرَتُهُ إِلَى مَا هَاجَرَ إِلَيْهِ.",
+    ],
+    [
+      "Actions are but by intentions, and every man shall have only that which he intended.",
+      "So whoever emigrated for worldly benefits or for a woman to marry.",
+      "His emigration was for what he emigrated for.",
+    ],
+  );
+
+  assertEquals(pairs.map((p) => [p.position, p.bead, p.score]), [[1, "1-1", 0.606], [2, "1-2", 0.673]]);
+  assertEquals(pairs[1].en, "So whoever emigrated for worldly benefits or for a woman to marry. His emigration was for what he emigrated for.");
+  assertEquals(alignSegments([], ["Actions are but by intentions."]), []);
+});
+
+Deno.test("alignHadith: cuts a regex isnad from matn_ar and matn_en; nothing without both sides", () => {
+  const isnad = "حَدَّثَنَا الْحُمَيْدِيُّ، قَالَ حَدَّثَنَا سُفْيَانُ،";
+  const pairs = alignHadith({
+    isnad_ar: isnad,
+    isnad_en: "Narrated 'Umar bin Al-Khattab",
+    matn_ar: `${isnad} إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ.`,
+    matn_en: "Narrated 'Umar bin Al-Khattab: Actions are but by intentions.",
+    split_method: "regex",
+  });
+
+  assertEquals(pairs.map((p) => [p.bead, p.ar, p.en]), [["1-1", "إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ.", "Actions are but by intentions."]]);
+  assertEquals(alignHadith({ isnad_ar: null, matn_ar: "إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ.", matn_en: null }), []);
+});
@@ -0,0 +1,41 @@
+/**
+ * Tests for src/arabic.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { normalizeArabic, plainArabic } from "../src/arabic.ts";
+
+Deno.test("normalizeArabic: strips diacritics and tatweel", () => {
+  assertEquals(normalizeArabic("إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ"), "انما الاعمال بالنيات");
+  assertEquals(normalizeArabic("الرَّحْمَٰنِ"), "الرحمن");
+  assertEquals(normalizeArabic("قـــال"), "قال");
+});
+
+Deno.test("normalizeArabic: folds alef, ya, hamza carriers and ta marbuta", () => {
+  assertEquals(normalizeArabic("أبو هريرة"), "ابو هريره");
+  assertEquals(normalizeArabic("آمن ٱلله"), "امن الله");
+  assertEquals(normalizeArabic("عيسى"), "عيسي");
+  assertEquals(normalizeArabic("مؤمن سائل"), "مومن سايل");
+});
+
+Deno.test("normalizeArabic: collapses whitespace and leaves other text alone", () => {
+  assertEquals(normalizeArabic("  حَدَّثَنَا \n الْحُمَيْدِيُّ  "), "حدثنا الحميدي");
+  assertEquals(normalizeArabic("Narrated 'Umar"), "Narrated 'Umar");
+});
+
+Deno.test("normalizeArabic: expands honorific ligatures and drops invisible characters", () => {
+  assertEquals(normalizeArabic("رسول الله ﷺ"), "رسول الله صلي الله عليه وسلم");
+  assertEquals(normalizeArabic("‏قال رسول​"), "قال رسول");
+});
+
+Deno.test("normalizeArabic: display profile only cleans, keeping the marks as written", () => {
+  // sunnah.com writes shadda before or after the haraka; NFC would put the haraka first
+  assertEquals(normalizeArabic("\u200F\u0625\u0646\u0651\u064E\u0645\u0627 \uFDFA ", "display"), "\u0625\u0646\u0651\u064E\u0645\u0627 \uFDFA");
+  assertEquals(normalizeArabic("\u0625\u0646\u0651\u064E", "ml"), "\u0625\u0646");
+});
+
+Deno.test("plainArabic: strips marks and expands ligatures, keeps letters as written", () => {
+  assertEquals(plainArabic("قَالَ رَسُولُ اللَّهِ ﷺ إِنَّمَا الأَعْمَالُ بِالنِّيَّةِ"), "قال رسول الله صلى الله عليه وسلم إنما الأعمال بالنية");
+  assertEquals(plainArabic("الرَّحْمَٰنِ عِيسَى"), "الرحمن عيسى");
+  assertEquals(plainArabic(null), null);
+});
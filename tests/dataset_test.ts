@@ -0,0 +1,89 @@
+/**
+ * Tests for src/dataset.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { assignSplits, type DatasetHadith, leakageGroups } from "../src/dataset.ts";
+import type { ClusterMember, ClusterSet } from "../src/similarity.ts";
+import type { CollectionId, SourceCitation } from "../src/types.ts";
+
+const MATN = "إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ، وَإِنَّمَا لِكُلِّ امْرِئٍ مَا نَوَى";
+
+function hadith(
+  collection: CollectionId,
+  number: string,
+  { matn = `متن ${number}`, variantOf = null, citations = [] }: {
+    matn?: string;
+    variantOf?: string | null;
+    citations?: SourceCitation[];
+  } = {},
+): DatasetHadith {
+  return { collection, hadith: { hadith_number: number, matn_ar: matn, variant_of: variantOf, source_citations: citations } };
+}
+
+Deno.test("leakageGroups: variants, citations and identical matn share a group", () => {
+  const groups = leakageGroups([
+    hadith("muslim", "8a", { variantOf: "8" }),
+    hadith("muslim", "8b", { variantOf: "8" }),
+    hadith("muslim", "2564c", { variantOf: "2564" }),
+    hadith("riyadussalihin", "7", { citations: [{ collection: "muslim", hadith_number: "2564c", agreed_upon: false }] }),
+    hadith("bukhari", "1", { matn: MATN }),
+    hadith("nawawi40", "1", { matn: `${MATN}.` }),
+    hadith("bukhari", "2"),
+  ]);
+
+  assertEquals(groups, [[0, 1], [2, 3], [4, 5], [6]]);
+});
+
+Deno.test("leakageGroups: parallel narrations clustered by ohd clusters share a group", () => {
+  const member = (collection: CollectionId, number: string, matched: string): ClusterMember => ({
+    id: `${collection}:${number}`,
+    collection,
+    hadith_number: number,
+    reference: `${collection} ${number}`,
+    similarity: 0.8,
+    matched,
+  });
+  const clusters: ClusterSet = {
+    generated_at: "",
+    parameters: { shingle: 5, hashes: 128, bands: 32, min_words: 8, min_similarity: 0.5 },
+    clusters: [{ id: 1, hadiths: [member("bukhari", "6", "abudawud:10"), member("abudawud", "10", "bukhari:6")], pairs: [] }],
+  };
+  const hadiths = [hadith("bukhari", "6"), hadith("muslim", "9"), hadith("abudawud", "10")];
+
+  assertEquals(leakageGroups(hadiths), [[0], [1], [2]]);
+  assertEquals(leakageGroups(hadiths, clusters), [[0, 2], [1]]);
+});
+
+Deno.test("assignSplits: deterministic, stratified and never splitting a group", async () => {
+  const hadiths = [
+    ...Array.from({ length: 200 }, (_, i) => hadith("bukhari", String(i + 1))),
+    ...Array.from({ length: 30 }, (_, i) => hadith("muslim", `${i + 1}a`, { variantOf: String(i + 1) })),
+    ...Array.from({ length: 30 }, (_, i) => hadith("muslim", `${i + 1}b`, { variantOf: String(i + 1) })),
+    ...Array.from({ length: 20 }, (_, i) =>
+      hadith("riyadussalihin", String(i + 1), {
+        citations: [{ collection: "bukhari", hadith_number: String(i + 1), agreed_upon: false }],
+      })
+    ),
+    ...Array.from({ length: 12 }, (_, i) => hadith("abudawud", String(i + 1))),
+    ...Array.from({ length: 3 }, (_, i) => hadith("nawawi40", String(i + 1))),
+  ];
+  const splits = await assignSplits(hadiths);
+
+  assertEquals(await assignSplits(hadiths), splits);
+  for (let i = 0; i < 20; i++) assertEquals(splits[260 + i], splits[i]);
+  for (let i = 0; i < 30; i++) assertEquals(splits[200 + i], splits[230 + i]);
+
+  const count = (from: number, to: number) =>
+    splits.slice(from, to).reduce((c, s) => ({ ...c, [s]: c[s] + 1 }), { train: 0, dev: 0, test: 0 });
+  // Bukhari's 200 with the 20 Riyad as-Salihin hadiths citing them: 10% is 22, short by at most a pair
+  const bukhari = count(0, 200), riyad = count(260, 280);
+  assertEquals([bukhari.dev + riyad.dev, bukhari.test + riyad.test].every((n) => n >= 21 && n <= 22), true);
+  // Muslim's 30 pairs: 6 hadiths each for dev and test
+  const muslim = count(200, 260);
+  assertEquals([muslim.train, muslim.dev, muslim.test], [48, 6, 6]);
+  // Small collections still get a share of every split
+  const abudawud = count(280, 292), nawawi = count(292, 295);
+  assertEquals([abudawud.train, abudawud.dev, abudawud.test], [10, 1, 1]);
+  assertEquals([nawawi.train, nawawi.dev, nawawi.test], [1, 1, 1]);
+});
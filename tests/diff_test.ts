@@ -0,0 +1,47 @@
+/**
+ * Tests for src/diff.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { diffCollection, excerptChange } from "../src/diff.ts";
+import { parseBookPage } from "../src/parser.ts";
+import { readFixture } from "./golden.ts";
+
+Deno.test("excerptChange: keeps only the changed part with context", () => {
+  const shared = "x".repeat(60);
+  const { previous, current } = excerptChange(`${shared} It is ${shared}`, `${shared} Abu Huraira ${shared}`);
+
+  assertEquals(previous, `…${"x".repeat(39)} It is ${"x".repeat(39)}…`);
+  assertEquals(current, `…${"x".repeat(39)} Abu Huraira ${"x".repeat(39)}…`);
+  assertEquals(excerptChange("Sahih", "Hasan"), { previous: "Sahih", current: "Hasan" });
+});
+
+Deno.test("diffCollection: added, removed and per-field changes", async () => {
+  const { hadiths } = parseBookPage(await readFixture("bukhari-1.html"), "bukhari", "primary", 1);
+  const [first, second, third] = hadiths;
+
+  const current = [
+    first,
+    { ...second, narrator: "Someone else", grade_en: "Sahih" },
+    { ...third, hadith_number: "4" },
+  ];
+  const diff = diffCollection("bukhari", hadiths, current);
+
+  assertEquals(diff.previous, 3);
+  assertEquals(diff.current, 3);
+  assertEquals(diff.added, ["4"]);
+  assertEquals(diff.removed, ["3"]);
+  assertEquals(diff.changed, ["2"]);
+  assertEquals(diff.field_changes, { narrator: ["2"], grade_en: ["2"] });
+  assertEquals(diff.samples.map((s) => s.field), ["narrator", "grade_en"]);
+  assertEquals(diff.samples[1].previous, "(none)");
+});
+
+Deno.test("diffCollection: collection missing from the previous dataset", async () => {
+  const { hadiths } = parseBookPage(await readFixture("bukhari-1.html"), "bukhari", "primary", 1);
+  const diff = diffCollection("bukhari", null, hadiths);
+
+  assertEquals(diff.previous, null);
+  assertEquals(diff.added, ["1", "2", "3"]);
+  assertEquals(diff.changed, []);
+});
@@ -0,0 +1,40 @@
+/**
+ * Fixture and golden-file helpers for the parser regression tests
+ *
+ * Fixtures are saved sunnah.com pages in tests/fixtures/; the expected parser
+ * output for each lives in tests/golden/<name>.json. After an intentional
+ * parser change, regenerate them with `deno task test:update` and review the diff.
+ */
+
+import { assertEquals } from "@std/assert";
+
+const UPDATE = Deno.args.includes("--update");
+
+/**
+ * Read a saved HTML page from tests/fixtures/
+ */
+export function readFixture(name: string): Promise<string> {
+  return Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url));
+}
+
+/**
+ * Compare a value with tests/golden/<name>.json, or rewrite the file with --update
+ */
+export async function assertGolden(name: string, actual: unknown): Promise<void> {
+  const url = new URL(`./golden/${name}.json`, import.meta.url);
+  const serialized = JSON.stringify(actual, null, 2) + "\n";
+
+  if (UPDATE) {
+    await Deno.writeTextFile(url, serialized);
+    return;
+  }
+
+  let expected: string;
+  try {
+    expected = await Deno.readTextFile(url);
+  } catch {
+    throw new Error(`Missing golden file tests/golden/${name}.json (run deno task test:update)`);
+  }
+
+  assertEquals(JSON.parse(serialized), JSON.parse(expected), `Parser output differs from tests/golden/${name}.json`);
+}
@@ -0,0 +1,43 @@
+/**
+ * Tests for src/grades.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { classifyGrade } from "../src/grades.ts";
+
+function graded(en: string | null, ar: string | null = null) {
+  const g = classifyGrade(en, ar);
+  return g && [g.term, g.category, g.strength, g.modifiers];
+}
+
+Deno.test("classifyGrade: English terms, grader ignored", () => {
+  assertEquals(graded("Sahih (Darussalam)"), ["sahih", "sahih", 6, []]);
+  assertEquals(graded("Hasan Sahih (Al-Albani)"), ["hasan sahih", "sahih", 5, []]);
+  assertEquals(graded("Da'if (Zubair 'Aliza'i)"), ["daif", "daif", 2, []]);
+  assertEquals(graded("Munkar"), ["munkar", "daif", 1, []]);
+  assertEquals(graded("Shadh"), ["shadh", "daif", 2, []]);
+  assertEquals(graded("Da'if Jiddan"), ["daif jiddan", "daif", 1, []]);
+  assertEquals(graded("Maudu' (Al-Albani)"), ["maudu", "maudu", 0, []]);
+});
+
+Deno.test("classifyGrade: modifiers", () => {
+  assertEquals(graded("Hasan li ghairihi"), ["hasan", "hasan", 3, ["li_ghairihi"]]);
+  assertEquals(graded("Sahih Lighairihi (Al-Albani)"), ["sahih", "sahih", 5, ["li_ghairihi"]]);
+  assertEquals(graded("Sahih mawquf"), ["sahih", "sahih", 6, ["mawquf"]]);
+  assertEquals(graded("Isnaduhu Da'if"), ["daif", "daif", 2, ["isnad"]]);
+  assertEquals(graded("Sahih Isnad"), ["sahih", "sahih", 6, ["isnad"]]);
+});
+
+Deno.test("classifyGrade: Arabic, alone or adding modifiers", () => {
+  assertEquals(graded(null, "صحيح (الألباني)"), ["sahih", "sahih", 6, []]);
+  assertEquals(graded(null, "حسن لغيره"), ["hasan", "hasan", 3, ["li_ghairihi"]]);
+  assertEquals(graded(null, "إسناده ضعيف جدًا"), ["daif jiddan", "daif", 1, ["isnad"]]);
+  assertEquals(graded(null, "صـحـيـح موقوف"), ["sahih", "sahih", 6, ["mawquf"]]);
+  assertEquals(graded("Hasan", "حسن لغيره"), ["hasan", "hasan", 3, ["li_ghairihi"]]);
+});
+
+Deno.test("classifyGrade: unmapped", () => {
+  assertEquals(graded("Grade not given"), null);
+  assertEquals(graded(null, null), null);
+  assertEquals(graded("", "لم تتم دراسته"), null);
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for src/graph.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { buildTransmissionGraph, clusterHadiths, commonLinks, type GraphHadith } from "../src/graph.ts";
+
+function hadith(number: string, isnad: string, variantOf: string | null = null, matn = "متن"): GraphHadith {
+  return {
+    collection: "muslim",
+    hadith: { hadith_number: number, reference: `Sahih Muslim ${number}`, isnad_ar: isnad, matn_ar: matn, variant_of: variantOf },
+  };
+}
+
+const HADITHS = [
+  hadith("8a", "حَدَّثَنِي أَبُو خَيْثَمَةَ، حَدَّثَنَا وَكِيعٌ، عَنْ كَهْمَسٍ، عَنْ عَبْدِ اللَّهِ بْنِ بُرَيْدَةَ", "8"),
+  hadith("8b", "حَدَّثَنَا عُبَيْدُ اللَّهِ بْنُ مُعَاذٍ، حَدَّثَنَا أَبِي، حَدَّثَنَا كَهْمَسٌ، عَنْ عَبْدِ اللَّهِ بْنِ بُرَيْدَةَ", "8"),
+  hadith("11", "حَدَّثَنَا قُتَيْبَةُ بْنُ سَعِيدٍ، عَنْ مَالِكِ بْنِ أَنَسٍ، عَنْ أَبِي سُهَيْلٍ، عَنْ أَبِيهِ"),
+];
+
+Deno.test("buildTransmissionGraph: teacher → student edges weighted by hadiths", () => {
+  const graph = buildTransmissionGraph(HADITHS, null, null);
+  const edges = [...graph.edges.values()].map((e) => [e.source, e.target, e.hadiths, e.collections.muslim]);
+
+  assertEquals(edges.filter(([source]) => source === "عبد-الله-بن-بريده"), [
+    ["عبد-الله-بن-بريده", "كهمس", 2, 2],
+  ]);
+  // "أَبِيهِ" is Abu Suhail's father, "أَبِي" 'Ubaidullah's: two different people
+  assertEquals(edges.map(([s, t]) => `${s} > ${t}`).filter((e) => e.includes("@")), [
+    "ابي@عبيد-الله-بن-معاذ > عبيد-الله-بن-معاذ",
+    "كهمس > ابي@عبيد-الله-بن-معاذ",
+    "ابيه@ابو-سهيل > ابو-سهيل",
+  ]);
+  assertEquals(graph.nodes.get("كهمس")?.hadiths, 2);
+});
+
+Deno.test("buildTransmissionGraph: a ح chain continues with the next from where they join", () => {
+  const graph = buildTransmissionGraph([
+    hadith(
+      "9",
+      "حَدَّثَنَا أَبُو بَكْرِ بْنُ أَبِي شَيْبَةَ، قَالَ حَدَّثَنَا وَكِيعٌ، ح وَحَدَّثَنَا عُبَيْدُ اللَّهِ بْنُ مُعَاذٍ، " +
+        "قَالَ حَدَّثَنَا أَبِي، قَالاَ حَدَّثَنَا كَهْمَسٌ، عَنِ ابْنِ بُرَيْدَةَ",
+    ),
+    hadith("10", "حَدَّثَنَا قُتَيْبَةُ، حَدَّثَنَا اللَّيْثُ، ح وَحَدَّثَنَا ابْنُ رُمْحٍ، أَخْبَرَنَا اللَّيْثُ، عَنْ نَافِعٍ"),
+  ], null, null);
+
+  assertEquals(graph.routes.map((routes) => routes.map((r) => r.nodes)), [
+    [["ابو-بكر-بن-ابو-شيبه", "وكيع", "كهمس", "ابن-بريده"], ["عبيد-الله-بن-معاذ", "ابي@عبيد-الله-بن-معاذ", "كهمس", "ابن-بريده"]],
+    [["قتيبه", "الليث", "نافع"], ["ابن-رمح", "الليث", "نافع"]],
+  ]);
+  // "قَالاَ": Waki' heard it from Kahmas too; shared names are not counted twice
+  assertEquals(graph.edges.get("كهمس\u0000وكيع")?.hadiths, 1);
+  assertEquals(graph.edges.get("نافع\u0000الليث")?.hadiths, 1);
+});
+
+Deno.test("clusterHadiths: variants and identical matn in other collections", () => {
+  const matn = "انما الاعمال بالنيات وانما لكل امري ما نوي فمن كانت هجرته";
+  const hadiths = [
+    ...HADITHS,
+    { ...hadith("1", "حَدَّثَنَا الْحُمَيْدِيُّ", null, matn), collection: "bukhari" as const },
+    hadith("1907a", "حَدَّثَنَا عَبْدُ اللَّهِ بْنُ مَسْلَمَةَ", "1907", `${matn}.`),
+  ];
+  assertEquals(clusterHadiths(hadiths), [[0, 1], [2], [3, 4]]);
+});
+
+Deno.test("commonLinks: the narrator the routes converge on", () => {
+  const graph = buildTransmissionGraph(HADITHS, null, null);
+  assertEquals(commonLinks(HADITHS, graph).map((c) => [c.hadiths, c.routes, c.candidates.map((l) => l.node)]), [
+    [["Sahih Muslim 8a", "Sahih Muslim 8b"], 2, ["كهمس"]],
+  ]);
+});
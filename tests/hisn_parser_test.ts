@@ -0,0 +1,33 @@
+/**
+ * Regression tests for src/hisn/parser.ts
+ *
+ * Usage: deno task test          (compare against tests/golden/)
+ *        deno task test:update   (rewrite tests/golden/ after an intentional change)
+ */
+
+import { assertEquals } from "@std/assert";
+import { parseHisnPage } from "../src/hisn/parser.ts";
+import { assertGolden, readFixture } from "./golden.ts";
+
+Deno.test("parseHisnPage: chapters and duas", async () => {
+  const page = parseHisnPage(await readFixture("hisn.html"));
+  await assertGolden("hisn", page);
+
+  assertEquals(page.chapters.map((c) => c.chapter_number), [1, 2]);
+  assertEquals(page.duas.map((d) => [d.dua_number, d.chapter_number]), [["1", 1], ["2", 1], ["5", 2]]);
+});
+
+Deno.test("parseHisnPage: context preamble is kept apart from the dua", async () => {
+  const page = parseHisnPage(await readFixture("hisn.html"));
+  const dua = page.duas.find((d) => d.dua_number === "2");
+
+  assertEquals(dua?.context_en, "Whoever awakens at night and then says:");
+  assertEquals(dua?.translation, "There is none worthy of worship but Allah alone, Who has no partner.");
+});
+
+Deno.test("parseHisnPage: Arabic text outside .arabic_text_details", async () => {
+  const page = parseHisnPage(await readFixture("hisn.html"));
+  const dua = page.duas.find((d) => d.dua_number === "5");
+
+  assertEquals(dua?.text_ar, "الْحَمْدُ لِلَّهِ الَّذِي كَسَانِي هَذَا الثَّوْبَ");
+});
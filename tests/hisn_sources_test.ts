@@ -0,0 +1,65 @@
+/**
+ * Tests for src/hisn/sources.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { type HadithIndex, linkDuaSources, parseHisnReference } from "../src/hisn/sources.ts";
+import { parseHisnPage } from "../src/hisn/parser.ts";
+import { normalizeArabic } from "../src/arabic.ts";
+import { readFixture } from "./golden.ts";
+
+function cited(ref: string) {
+  return parseHisnReference(ref).map((s) => [s.work, s.collection, s.locator, s.locator_type]);
+}
+
+Deno.test("parseHisnReference: collections, other works and locators", () => {
+  assertEquals(cited("Al-Bukhari, cf. Al-Asqalani, Fathul-Bari 11/113; Muslim 4/2083."), [
+    ["Al-Bukhari", "bukhari", null, null],
+    ["Fathul-Bari", null, "11/113", "volume_page"],
+    ["Muslim", "muslim", "4/2083", "volume_page"],
+  ]);
+  assertEquals(cited("Abu Dawud, At-Tirmithi, Ibn Majah. See Irwa'ul-Ghalil 7/47."), [
+    ["Abu Dawud", "abudawud", null, null],
+    ["At-Tirmithi", "tirmidhi", null, null],
+    ["Ibn Majah", "ibnmajah", null, null],
+    ["Irwa'ul-Ghalil", null, "7/47", "volume_page"],
+  ]);
+});
+
+Deno.test("parseHisnReference: hadith numbers and continued locators", () => {
+  assertEquals(cited("Ibn As-Sunni no. 34, An-Nasa'i 3/53"), [
+    ["Ibn As-Sunni", null, "34", "number"],
+    ["An-Nasa'i", "nasai", "3/53", "volume_page"],
+  ]);
+  assertEquals(cited("Abu Dawud 2/86, 3/40"), [
+    ["Abu Dawud", "abudawud", "2/86", "volume_page"],
+    ["Abu Dawud", "abudawud", "3/40", "volume_page"],
+  ]);
+  assertEquals(cited("Al-Bukhari 6306 (with Fathul-Bari)"), [["Al-Bukhari", "bukhari", "6306", "number"]]);
+});
+
+Deno.test("linkDuaSources: resolves by text, reports what does not resolve", async () => {
+  const { duas } = parseHisnPage(await readFixture("hisn.html"));
+  const wakingUp = duas.find((d) => d.dua_number === "1")!;
+
+  const index: HadithIndex = new Map([
+    ["bukhari", {
+      numbers: new Set(["6312"]),
+      texts: [{ hadith_number: "6312", text: normalizeArabic(`كان النبي يقول ${wakingUp.text_ar}`) }],
+    }],
+    ["muslim", { numbers: new Set(["1"]), texts: [{ hadith_number: "1", text: "" }] }],
+  ]);
+  const unresolved = linkDuaSources(duas, index);
+
+  assertEquals(
+    wakingUp.sources?.map((s) => [s.work, s.hadith, s.confidence]),
+    [["Al-Bukhari", "bukhari:6312", 0.8], ["Fathul-Bari", null, 0], ["Muslim", null, 0]],
+  );
+  assertEquals(unresolved.map((u) => [u.dua_number, u.work, u.reason]), [
+    ["1", "Muslim", "volume/page locator, no text match"],
+    ["2", "Al-Bukhari", "no locator, no text match"],
+    ["5", "Abu Dawud", "collection not scraped"],
+    ["5", "At-Tirmithi", "collection not scraped"],
+    ["5", "Ibn Majah", "collection not scraped"],
+  ]);
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for src/isnad.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { isnadNames, parseIsnad } from "../src/isnad.ts";
+
+Deno.test("isnadNames: names between transmission words, up to the Prophet", () => {
+  assertEquals(
+    isnadNames(
+      "حَدَّثَنَا عَبْدُ اللَّهِ بْنُ يُوسُفَ، قَالَ أَخْبَرَنَا مَالِكٌ، عَنْ هِشَامِ بْنِ عُرْوَةَ، عَنْ أَبِيهِ، " +
+        "عَنْ عَائِشَةَ أُمِّ الْمُؤْمِنِينَ ـ رضى الله عنها ـ أَنَّ الْحَارِثَ بْنَ هِشَامٍ ـ رضى الله عنه ـ سَأَلَ رَسُولَ اللَّهِ",
+    ),
+    ["عَبْدُ اللَّهِ بْنُ يُوسُفَ", "مَالِكٌ", "هِشَامِ بْنِ عُرْوَةَ", "أَبِيهِ", "عَائِشَةَ"],
+  );
+  // "أَنَّ" followed by a transmission word continues the chain
+  assertEquals(
+    isnadNames("حَدَّثَنَا يَحْيَى بْنُ بُكَيْرٍ، عَنِ ابْنِ شِهَابٍ، أَنَّ عُرْوَةَ حَدَّثَهُ أَنَّ عَائِشَةَ قَالَتْ"),
+    ["يَحْيَى بْنُ بُكَيْرٍ", "ابْنِ شِهَابٍ", "عُرْوَةَ", "عَائِشَةَ"],
+  );
+  assertEquals(isnadNames(null), []);
+});
+
+Deno.test("parseIsnad: transmission words, قَالَ continuations and ح chain switches", () => {
+  const links = parseIsnad(
+    "حَدَّثَنَا أَبُو بَكْرِ بْنُ أَبِي شَيْبَةَ، قَالَ حَدَّثَنَا وَكِيعٌ، ح وَحَدَّثَنَا عُبَيْدُ اللَّهِ بْنُ مُعَاذٍ، " +
+      "قَالَ حَدَّثَنَا أَبِي، قَالاَ حَدَّثَنَا كَهْمَسٌ، عَنِ ابْنِ بُرَيْدَةَ، قَالَ سَمِعْتُ يَحْيَى بْنَ يَعْمَرَ",
+  );
+  assertEquals(links.filter((l) => l.joins_chains).map((l) => l.name_ar), ["كَهْمَسٌ"]);
+  assertEquals(links.map((l) => [l.position, l.chain, l.transmission_verb, l.name_ar]), [
+    [1, 1, "حَدَّثَنَا", "أَبُو بَكْرِ بْنُ أَبِي شَيْبَةَ"],
+    [2, 1, "حَدَّثَنَا", "وَكِيعٌ"],
+    [3, 2, "وَحَدَّثَنَا", "عُبَيْدُ اللَّهِ بْنُ مُعَاذٍ"],
+    [4, 2, "حَدَّثَنَا", "أَبِي"],
+    [5, 2, "حَدَّثَنَا", "كَهْمَسٌ"],
+    [6, 2, "عَنِ", "ابْنِ بُرَيْدَةَ"],
+    [7, 2, "سَمِعْتُ", "يَحْيَى بْنَ يَعْمَرَ"],
+  ]);
+  assertEquals(
+    parseIsnad("عَنِ ابْنِ شِهَابٍ، أَنَّ عُرْوَةَ حَدَّثَهُ").map((l) => l.transmission_verb),
+    ["عَنِ", "أَنَّ"],
+  );
+});
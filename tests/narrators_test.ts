@@ -0,0 +1,76 @@
+/**
+ * Tests for src/narrators.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  arabicNarratorKey,
+  indexRegistry,
+  type NarratorRegistry,
+  narratorKey,
+  resolveNarrator,
+} from "../src/narrators.ts";
+
+Deno.test("narratorKey: spelling variants share a key", () => {
+  assertEquals(narratorKey("Abu Huraira"), narratorKey("Abu Hurairah"));
+  assertEquals(narratorKey("Abu Huraira"), narratorKey("Abu Hurayra"));
+  assertEquals(narratorKey("'Abdullah bin 'Umar"), narratorKey("Abdullah ibn Umar"));
+  assertEquals(narratorKey("Yahya b. Ya'mur"), narratorKey("Yahya ibn Yamur"));
+});
+
+Deno.test("arabicNarratorKey: case endings and diacritics do not matter", () => {
+  assertEquals(arabicNarratorKey("عَائِشَةُ"), arabicNarratorKey("عَائِشَةَ"));
+  assertEquals(arabicNarratorKey("أَبُو هُرَيْرَةَ"), arabicNarratorKey("أَبِي هُرَيْرَةَ"));
+  assertEquals(arabicNarratorKey("هِشَامِ بْنِ عُرْوَةَ"), arabicNarratorKey("هشام ابن عروة"));
+});
+
+Deno.test("resolveNarrator: English spelling first, else the last isnad_ar name", () => {
+  const registry: NarratorRegistry = {
+    generated_at: "",
+    narrators: [
+      {
+        id: "abu-huraira",
+        name_en: "Abu Huraira",
+        name_ar: "أَبُو هُرَيْرَةَ",
+        aliases_en: ["Abu Hurairah"],
+        aliases_ar: [],
+        hadiths: 2,
+      },
+      { id: "aisha", name_en: "'Aisha", name_ar: "عَائِشَةُ", aliases_en: [], aliases_ar: [], hadiths: 1 },
+    ],
+  };
+  const index = indexRegistry(registry);
+
+  assertEquals(resolveNarrator(index, { narrator: "Abu Hurayra", isnad_ar: null }), "abu-huraira");
+  assertEquals(resolveNarrator(index, { narrator: "It is", isnad_ar: "حَدَّثَنَا مَالِكٌ، عَنْ عَائِشَةَ، أَنَّهَا قَالَتْ" }), "aisha");
+  assertEquals(resolveNarrator(index, { narrator: "Someone else", isnad_ar: "عَنْ أَبِي هُرَيْرَةَ، قَالَ" }), "abu-huraira");
+  assertEquals(resolveNarrator(index, { narrator: null, isnad_ar: "عَنْ مَالِكٍ، قَالَ" }), null);
+});
+
+Deno.test("resolveNarrator: a bare 'Abdullah is not taken for one Companion", () => {
+  const registry: NarratorRegistry = {
+    generated_at: "",
+    narrators: [
+      {
+        id: "abdulah-ibn-masud",
+        name_en: "'Abdullah bin Mas'ud",
+        name_ar: "عَبْدُ اللَّهِ بْنُ مَسْعُودٍ",
+        aliases_en: ["'Abdullah"],
+        aliases_ar: [],
+        hadiths: 1,
+      },
+      {
+        id: "abdulah-ibn-umar",
+        name_en: "'Abdullah bin 'Umar",
+        name_ar: "عَبْدُ اللَّهِ بْنُ عُمَرَ",
+        aliases_en: [],
+        aliases_ar: [],
+        hadiths: 1,
+      },
+    ],
+  };
+  const index = indexRegistry(registry);
+
+  assertEquals(resolveNarrator(index, { narrator: "'Abdullah", isnad_ar: "عَنْ عَبْدِ اللَّهِ بْنِ عُمَرَ، قَالَ" }), "abdulah-ibn-umar");
+  assertEquals(resolveNarrator(index, { narrator: "'Abdullah", isnad_ar: "عَنْ عَبْدِ اللَّهِ، قَالَ" }), null);
+});
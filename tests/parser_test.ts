@@ -0,0 +1,216 @@
+/**
+ * Regression tests for src/parser.ts
+ *
+ * Usage: deno task test          (compare against tests/golden/)
+ *        deno task test:update   (rewrite tests/golden/ after an intentional change)
+ */
+
+import { assertEquals } from "@std/assert";
+import { DOMParser, type Element } from "deno-dom";
+import {
+  extractGrades,
+  extractNarratorFromNarrated,
+  parseBookPage,
+  parseFlatCollectionPage,
+  parseSourceCitations,
+  splitIsnadFromMatn,
+} from "../src/parser.ts";
+import { assertGolden, readFixture } from "./golden.ts";
+
+// ============================================================================
+// Golden snapshots, one per collection type
+// ============================================================================
+
+Deno.test("parseBookPage: book-based collection (bukhari)", async () => {
+  const page = parseBookPage(await readFixture("bukhari-1.html"), "bukhari", "primary", 1);
+  await assertGolden("bukhari-1", page);
+
+  assertEquals(page.book_name_en, "Revelation");
+  assertEquals(page.hadiths.map((h) => h.hadith_number), ["1", "2", "3"]);
+  // Hadith 2 sits under an untitled "باب" heading, so it has no chapter
+  assertEquals(page.hadiths.map((h) => h.chapter_number), [1, null, 3]);
+});
+
+Deno.test("parseBookPage: variant narrations (muslim)", async () => {
+  const page = parseBookPage(await readFixture("muslim-1.html"), "muslim", "primary", 1);
+  await assertGolden("muslim-1", page);
+
+  const variants = page.hadiths.filter((h) => h.variant_of === "8");
+  assertEquals(variants.map((h) => h.variant_suffix), ["a", "b"]);
+  assertEquals(variants.every((h) => h.has_variants), true);
+});
+
+Deno.test("parseBookPage: Arabic-only collection (darimi)", async () => {
+  const page = parseBookPage(await readFixture("darimi-1.html"), "darimi", "primary", 0);
+  await assertGolden("darimi-1", page);
+
+  assertEquals(page.hadiths.map((h) => h.hadith_number), ["1", "2"]);
+  for (const hadith of page.hadiths) {
+    assertEquals(hadith.text_en, "");
+    assertEquals(hadith.isnad_ar !== null && hadith.matn_ar !== null, true);
+  }
+});
+
+Deno.test("parseBookPage: compilation with source references (riyadussalihin)", async () => {
+  const page = parseBookPage(
+    await readFixture("riyadussalihin-1.html"),
+    "riyadussalihin",
+    "compilation",
+    1,
+  );
+  await assertGolden("riyadussalihin-1", page);
+
+  assertEquals(page.hadiths.map((h) => h.source_reference), ["[Al-Bukhari and Muslim]", "[Muslim]"]);
+  assertEquals(page.hadiths[1].source_citations, [{ collection: "muslim", hadith_number: "2564c", agreed_upon: false }]);
+});
+
+Deno.test("parseFlatCollectionPage: flat collection (nawawi40)", async () => {
+  const hadiths = parseFlatCollectionPage(await readFixture("nawawi40.html"), "nawawi40");
+  await assertGolden("nawawi40", hadiths);
+
+  assertEquals(hadiths.map((h) => h.url_source), [
+    "https://sunnah.com/nawawi40:1",
+    "https://sunnah.com/nawawi40:2",
+  ]);
+});
+
+// ============================================================================
+// Field extractors
+// ============================================================================
+
+Deno.test("splitIsnadFromMatn: splits at the first قَالَ not followed by a narration verb", () => {
+  const split = splitIsnadFromMatn(
+    "حَدَّثَنَا الْحُمَيْدِيُّ، قَالَ حَدَّثَنَا سُفْيَانُ، عَنْ يَحْيَى، قَالَ إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ",
+  );
+  assertEquals(split, {
+    isnad: "حَدَّثَنَا الْحُمَيْدِيُّ، قَالَ حَدَّثَنَا سُفْيَانُ، عَنْ يَحْيَى، قَالَ",
+    matn: "إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ",
+    method: "heuristic_qala",
+  });
+});
+
+Deno.test("splitIsnadFromMatn: splits at أَنَّ رَسُولَ", () => {
+  const split = splitIsnadFromMatn(
+    "أَخْبَرَنَا مَالِكٌ، عَنْ نَافِعٍ، عَنِ ابْنِ عُمَرَ، أَنَّ رَسُولَ اللَّهِ صلى الله عليه وسلم نَهَى عَنِ النَّجْشِ",
+  );
+  assertEquals(split, {
+    isnad: "أَخْبَرَنَا مَالِكٌ، عَنْ نَافِعٍ، عَنِ ابْنِ عُمَرَ،",
+    matn: "أَنَّ رَسُولَ اللَّهِ صلى الله عليه وسلم نَهَى عَنِ النَّجْشِ",
+    method: "heuristic_anna",
+  });
+});
+
+Deno.test("splitIsnadFromMatn: returns null without a leading narration verb", () => {
+  assertEquals(splitIsnadFromMatn("عَنْ عُمَرَ رَضِيَ اللهُ عَنْهُ قَالَ: سَمِعْت رَسُولَ اللَّهِ"), null);
+});
+
+Deno.test("extractNarratorFromNarrated: common English intros", () => {
+  assertEquals(extractNarratorFromNarrated("Narrated 'Umar bin Al-Khattab:"), "Umar bin Al-Khattab");
+  assertEquals(extractNarratorFromNarrated("Abu Huraira reported:"), "Abu Huraira");
+  assertEquals(extractNarratorFromNarrated("'A'isha (Allah be pleased with her) said:"), "A'isha");
+  assertEquals(extractNarratorFromNarrated("He said:"), null);
+});
+
+Deno.test("extractGrades: reads and normalizes the grade table", () => {
+  const doc = new DOMParser().parseFromString(
+    `<div id="c"><table class="gradetable"><tr>
+      <td class="english_grade"><b>Grade</b>:</td>
+      <td class="english_grade">&nbsp;<b>Hasan Sahih</b> (Al-Albani)</td>
+      <td class="arabic_grade"></td>
+      <td class="arabic_grade arabic">حسن صحيح (الألباني)</td>
+    </tr></table></div>`,
+    "text/html",
+  );
+  const container = doc.querySelector("#c") as Element;
+
+  assertEquals(extractGrades(container), {
+    grade_en: "Hasan Sahih (Al-Albani)",
+    grade_ar: "حسن صحيح (الألباني)",
+    normalized: "hasan sahih",
+    grades: [{
+      grader: "Al-Albani",
+      grade_en: "Hasan Sahih",
+      grade_ar: "حسن صحيح",
+      normalized: "hasan sahih",
+      category: "sahih",
+      strength: 5,
+      modifiers: [],
+    }],
+  });
+});
+
+Deno.test("extractGrades: one entry per grader row", () => {
+  const doc = new DOMParser().parseFromString(
+    `<div id="c"><table class="gradetable">
+      <tr>
+        <td class="english_grade"><b>Grade</b>:</td>
+        <td class="english_grade">&nbsp;<b>Munkar</b> (Al-Albani)</td>
+        <td class="arabic_grade"></td>
+        <td class="arabic_grade arabic">منكر (الألباني)</td>
+      </tr>
+      <tr>
+        <td class="english_grade"></td>
+        <td class="english_grade">&nbsp;<b>Da'if</b> (Zubair 'Aliza'i)</td>
+        <td class="arabic_grade"></td>
+        <td class="arabic_grade arabic"></td>
+      </tr>
+    </table></div>`,
+    "text/html",
+  );
+  const container = doc.querySelector("#c") as Element;
+
+  assertEquals(extractGrades(container), {
+    grade_en: "Munkar (Al-Albani)",
+    grade_ar: "منكر (الألباني)",
+    normalized: "munkar",
+    grades: [
+      {
+        grader: "Al-Albani",
+        grade_en: "Munkar",
+        grade_ar: "منكر",
+        normalized: "munkar",
+        category: "daif",
+        strength: 1,
+        modifiers: [],
+      },
+      {
+        grader: "Zubair 'Aliza'i",
+        grade_en: "Da'if",
+        grade_ar: null,
+        normalized: "daif",
+        category: "daif",
+        strength: 2,
+        modifiers: [],
+      },
+    ],
+  });
+});
+
+Deno.test("extractGrades: no grade table", () => {
+  const doc = new DOMParser().parseFromString(`<div id="c"></div>`, "text/html");
+  const container = doc.querySelector("#c") as Element;
+
+  assertEquals(extractGrades(container), { grade_en: null, grade_ar: null, normalized: null, grades: [] });
+});
+
+Deno.test("parseSourceCitations: agreed upon expands to al-Bukhari and Muslim", () => {
+  const both = [
+    { collection: "bukhari", hadith_number: null, agreed_upon: true },
+    { collection: "muslim", hadith_number: null, agreed_upon: true },
+  ];
+  assertEquals(parseSourceCitations("[Agreed upon]"), both);
+  assertEquals(parseSourceCitations("[Muttafaqun 'alayh]"), both);
+  assertEquals(parseSourceCitations("[Al-Bukhari and Muslim]"), both);
+});
+
+Deno.test("parseSourceCitations: hadith numbers come from links", () => {
+  assertEquals(parseSourceCitations("[Abu Dawud & At-Tirmidhi]", ["tirmidhi:2516"]), [
+    { collection: "abudawud", hadith_number: null, agreed_upon: false },
+    { collection: "tirmidhi", hadith_number: "2516", agreed_upon: false },
+  ]);
+  assertEquals(parseSourceCitations("[Muslim]", ["muslim:2564a", "bukhari:52"]), [
+    { collection: "muslim", hadith_number: "2564a", agreed_upon: true },
+    { collection: "bukhari", hadith_number: "52", agreed_upon: true },
+  ]);
+  assertEquals(parseSourceCitations(null), []);
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for src/quran.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { findArabicQuotations, findEnglishReferences, indexQuran, parseQuranText } from "../src/quran.ts";
+
+const QURAN = `1|1|بسم الله الرحمن الرحيم
+1|2|الحمد لله رب العالمين
+1|3|الرحمن الرحيم
+1|4|مالك يوم الدين
+112|1|قل هو الله أحد
+112|2|الله الصمد
+112|3|لم يلد ولم يولد
+112|4|ولم يكن له كفوا أحد
+
+# Tanzil Quran Text (Simple Clean)
+`;
+
+const index = indexQuran(parseQuranText(QURAN));
+
+Deno.test("parseQuranText: surah|ayah|text lines, license comments skipped", () => {
+  const ayahs = parseQuranText(QURAN);
+  assertEquals(ayahs.length, 8);
+  assertEquals(ayahs[4], { surah: 112, ayah: 1, text: "قل هو الله أحد" });
+});
+
+Deno.test("findArabicQuotations: bracketed, introduced and unmarked quotations", () => {
+  const bracketed = "فَقَالَ: ﴿قُلْ هُوَ اللَّهُ أَحَدٌ﴾ تَعْدِلُ ثُلُثَ الْقُرْآنِ";
+  const [citation] = findArabicQuotations(index, bracketed);
+  assertEquals(bracketed.slice(citation.start, citation.end), "قُلْ هُوَ اللَّهُ أَحَدٌ");
+  assertEquals([citation.surah, citation.ayah_start, citation.ayah_end, citation.method, citation.words], [112, 1, 1, "brackets", 4]);
+
+  const introduced = "ثُمَّ قَرَأَ الْحَمْدُ لِلَّهِ رَبِّ الْعَالَمِينَ الرَّحْمَنِ الرَّحِيمِ حَتَّى خَتَمَ";
+  assertEquals(
+    findArabicQuotations(index, introduced).map((c) => [c.surah, c.ayah_start, c.ayah_end, c.method, c.words]),
+    [[1, 2, 3, "formula", 6]],
+  );
+
+  // A short phrase in running text is not a quotation; a long one is
+  assertEquals(findArabicQuotations(index, "كَانَ يَقُولُ بِسْمِ اللَّهِ الرَّحْمَنِ الرَّحِيمِ إِذَا أَكَلَ"), []);
+  assertEquals(
+    findArabicQuotations(index, "فَإِنَّهُ لَمْ يَلِدْ وَلَمْ يُولَدْ وَلَمْ يَكُنْ لَهُ كُفُوًا أَحَدٌ").map((c) => [c.ayah_start, c.ayah_end, c.method]),
+    [[3, 4, "text"]],
+  );
+  assertEquals(findArabicQuotations(index, null), []);
+});
+
+Deno.test("findEnglishReferences: verse references with the quoted passage before them", () => {
+  const text = "Then he recited: 'Say: He is Allah, the One.' (V.112:1) and (2.300) and (1.2-3)";
+  const citations = findEnglishReferences(text);
+  assertEquals(citations.map((c) => [c.surah, c.ayah_start, c.ayah_end, c.method]), [[112, 1, 1, "reference"], [1, 2, 3, "reference"]]);
+  assertEquals(text.slice(citations[0].start, citations[0].end), "'Say: He is Allah, the One.' (V.112:1)");
+  assertEquals(text.slice(citations[1].start, citations[1].end), "(1.2-3)");
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests for src/similarity.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { type ClusterHadith, clusterSimilarHadiths, editSimilarity, matnWords } from "../src/similarity.ts";
+import type { CollectionId } from "../src/types.ts";
+
+const BUKHARI_1 =
+  "إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ، وَإِنَّمَا لِكُلِّ امْرِئٍ مَا نَوَى، فَمَنْ كَانَتْ هِجْرَتُهُ إِلَى دُنْيَا يُصِيبُهَا، أَوْ إِلَى امْرَأَةٍ يَنْكِحُهَا، فَهِجْرَتُهُ إِلَى مَا هَاجَرَ إِلَيْهِ";
+const MUSLIM_1907 =
+  "إِنَّمَا الأَعْمَالُ بِالنِّيَّةِ وَإِنَّمَا لاِمْرِئٍ مَا نَوَى فَمَنْ كَانَتْ هِجْرَتُهُ إِلَى اللَّهِ وَرَسُولِهِ فَهِجْرَتُهُ إِلَى اللَّهِ وَرَسُولِهِ وَمَنْ كَانَتْ هِجْرَتُهُ لِدُنْيَا يُصِيبُهَا أَوِ امْرَأَةٍ يَتَزَوَّجُهَا فَهِجْرَتُهُ إِلَى مَا هَاجَرَ إِلَيْهِ";
+// Riyad as-Salihin quotes without diacritics
+const RIYAD_1 =
+  "إنما الأعمال بالنيات، وإنما لكل امرئ ما نوى، فمن كانت هجرته إلى الله ورسوله فهجرته إلى الله ورسوله، ومن كانت هجرته لدنيا يصيبها أو امرأة ينكحها فهجرته إلى ما هاجر إليه";
+const OTHER =
+  "الْمُسْلِمُ مَنْ سَلِمَ الْمُسْلِمُونَ مِنْ لِسَانِهِ وَيَدِهِ، وَالْمُهَاجِرُ مَنْ هَجَرَ مَا نَهَى اللَّهُ عَنْهُ";
+
+function hadith(collection: CollectionId, number: string, matn: string): ClusterHadith {
+  return { collection, hadith: { hadith_number: number, reference: `${collection} ${number}`, matn_ar: matn } };
+}
+
+Deno.test("matnWords: punctuation and diacritics dropped", () => {
+  assertEquals(matnWords("إِنَّمَا الأَعْمَالُ بِالنِّيَّاتِ، وَإِنَّمَا"), ["انما", "الاعمال", "بالنيات", "وانما"]);
+  assertEquals(matnWords(null), []);
+});
+
+Deno.test("editSimilarity: word-level", () => {
+  assertEquals(editSimilarity(["a", "b", "c", "d"], ["a", "b", "c", "d"]), 1);
+  assertEquals(editSimilarity(["a", "b", "c", "d"], ["a", "x", "c"]), 0.5);
+  assertEquals(editSimilarity([], []), 1);
+});
+
+Deno.test("clusterSimilarHadiths: parallel narrations across collections, nothing else", () => {
+  const clusters = clusterSimilarHadiths([
+    hadith("bukhari", "1", BUKHARI_1),
+    hadith("bukhari", "10", OTHER),
+    hadith("muslim", "1907a", MUSLIM_1907),
+    hadith("riyadussalihin", "1", RIYAD_1),
+    hadith("muslim", "1907b", "مِثْلَهُ"),
+  ]);
+
+  assertEquals(clusters.length, 1);
+  assertEquals(clusters[0].hadiths.map((h) => [h.id, h.matched]), [
+    ["bukhari:1", "riyadussalihin:1"],
+    ["muslim:1907a", "riyadussalihin:1"],
+    ["riyadussalihin:1", "muslim:1907a"],
+  ]);
+  assertEquals(clusters[0].hadiths.every((h) => h.similarity >= 0.5 && h.similarity <= 1), true);
+});